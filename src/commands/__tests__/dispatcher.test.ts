@@ -0,0 +1,165 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Command, CommandRole } from '../command.types';
+import type { CommandAuditEntry } from '../../services/audit.service';
+import { createCommandUsageError } from '../command.types';
+import { clearCommands, registerCommand } from '../registry';
+import { dispatchCommand, parseCommandText } from '../dispatcher';
+import { TEST_GROUP, createFakeSocket, createGroupMessage } from './fake-socket';
+
+const echoCommand: Command<{ words: string[] }> = {
+  name: 'echo',
+  aliases: ['eco'],
+  description: 'Repete o texto.',
+  usage: '/echo <texto>',
+  permission: 'member',
+  parseArgs: (rawArgs) => {
+    if (rawArgs.length === 0) {
+      throw createCommandUsageError('Informe o texto.');
+    }
+    return { words: rawArgs };
+  },
+  execute: async (ctx) => {
+    await ctx.reply(ctx.args.words.join(' '));
+  },
+};
+
+const adminCommand: Command = {
+  name: 'wipe',
+  description: 'Comando restrito.',
+  permission: 'admin',
+  execute: async (ctx) => {
+    await ctx.reply('feito');
+  },
+};
+
+const brokenCommand: Command = {
+  name: 'broken',
+  description: 'Sempre falha.',
+  permission: 'member',
+  execute: async () => {
+    throw new Error('boom');
+  },
+};
+
+function withRole(role: CommandRole) {
+  return async () => role;
+}
+
+beforeEach(() => {
+  clearCommands();
+  registerCommand(echoCommand);
+  registerCommand(adminCommand);
+  registerCommand(brokenCommand);
+});
+
+test('ignora mensagens que não são comandos', async () => {
+  const sock = createFakeSocket();
+  const handled = await dispatchCommand({ sock, msg: createGroupMessage('olha esse vídeo'), text: 'olha esse vídeo', group: TEST_GROUP });
+
+  assert.equal(handled, false);
+  assert.deepEqual(sock.sent, []);
+});
+
+test('nome de comando sem barra é conversa, não comando', async () => {
+  const sock = createFakeSocket();
+  const handled = await dispatchCommand({ sock, msg: createGroupMessage('eco'), text: 'eco', group: TEST_GROUP });
+
+  assert.equal(handled, false);
+  assert.deepEqual(sock.sent, []);
+});
+
+test('aceita o legado "status" sem barra', () => {
+  assert.deepEqual(parseCommandText(' Status '), { name: 'status', rawArgs: [] });
+  assert.equal(parseCommandText('status do vídeo'), null);
+});
+
+test('"top" e "ranking" só valem com barra', () => {
+  assert.equal(parseCommandText('top'), null);
+  assert.equal(parseCommandText('ranking'), null);
+  assert.deepEqual(parseCommandText('/top 5'), { name: 'top', rawArgs: ['5'] });
+});
+
+test('executa o comando pelo nome ou alias e responde citando a mensagem', async () => {
+  const sock = createFakeSocket();
+  const msg = createGroupMessage('/eco oi grupo');
+
+  const handled = await dispatchCommand({ sock, msg, text: '/eco oi grupo', group: TEST_GROUP });
+
+  assert.equal(handled, true);
+  assert.deepEqual(sock.sent, [{ jid: TEST_GROUP.jid, text: 'oi grupo', quotedId: msg.key.id }]);
+});
+
+test('responde comando desconhecido com a dica do /help', async () => {
+  const sock = createFakeSocket();
+  const handled = await dispatchCommand({ sock, msg: createGroupMessage('/nada'), text: '/nada', group: TEST_GROUP });
+
+  assert.equal(handled, true);
+  assert.equal(sock.sent.length, 1);
+  assert.match(sock.sent[0].text!, /Comando desconhecido: \/nada/);
+});
+
+test('nega comando de admin para membro e audita a tentativa', async () => {
+  const sock = createFakeSocket();
+  const audits: CommandAuditEntry[] = [];
+
+  await dispatchCommand({
+    sock,
+    msg: createGroupMessage('/wipe'),
+    text: '/wipe',
+    group: TEST_GROUP,
+    resolveRole: withRole('member'),
+    audit: async (entry) => { audits.push(entry); },
+  });
+
+  assert.equal(sock.sent.length, 1);
+  assert.match(sock.sent[0].text!, /restrito a administradores/);
+  assert.equal(audits.length, 1);
+  assert.equal(audits[0].outcome, 'denied');
+  assert.equal(audits[0].role, 'member');
+});
+
+test('executa comando de admin para admin', async () => {
+  const sock = createFakeSocket();
+  const audits: CommandAuditEntry[] = [];
+
+  await dispatchCommand({
+    sock,
+    msg: createGroupMessage('/wipe'),
+    text: '/wipe',
+    group: TEST_GROUP,
+    resolveRole: withRole('owner'),
+    audit: async (entry) => { audits.push(entry); },
+  });
+
+  assert.deepEqual(sock.sent.map(message => message.text), ['feito']);
+  assert.equal(audits[0].outcome, 'success');
+});
+
+test('erro de uso responde com a mensagem e o uso correto', async () => {
+  const sock = createFakeSocket();
+  await dispatchCommand({ sock, msg: createGroupMessage('/echo'), text: '/echo', group: TEST_GROUP });
+
+  assert.deepEqual(sock.sent.map(message => message.text), ['Informe o texto.\nUso: /echo <texto>']);
+});
+
+test('erro inesperado responde com aviso genérico', async () => {
+  const sock = createFakeSocket();
+  await dispatchCommand({ sock, msg: createGroupMessage('/broken'), text: '/broken', group: TEST_GROUP });
+
+  assert.equal(sock.sent.length, 1);
+  assert.match(sock.sent[0].text!, /Erro ao executar \/broken/);
+});
+
+test('falha ao enviar a resposta não escapa do dispatcher', async () => {
+  const sock = createFakeSocket({ failSends: true });
+  const audits: CommandAuditEntry[] = [];
+  const audit = async (entry: CommandAuditEntry) => { audits.push(entry); };
+
+  for (const text of ['/nada', '/wipe', '/echo', '/broken']) {
+    const handled = await dispatchCommand({ sock, msg: createGroupMessage(text), text, group: TEST_GROUP, resolveRole: withRole('member'), audit });
+    assert.equal(handled, true);
+  }
+
+  assert.deepEqual(audits.map(entry => entry.outcome), ['denied']);
+});
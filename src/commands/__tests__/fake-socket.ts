@@ -0,0 +1,49 @@
+import type { WAMessage } from '@whiskeysockets/baileys';
+import type { GroupConfig } from '../../config/groups.config';
+import type { CommandSocket } from '../command.types';
+import { DEFAULT_TENANT_ID } from '../../config/groups.config';
+
+/**
+ * Mensagem enviada pelo socket falso
+ */
+export interface SentMessage {
+  jid: string;
+  text?: string;
+  quotedId?: string | null;
+}
+
+/**
+ * Socket falso: guarda as mensagens em vez de enviar ao WhatsApp
+ * Com failSends, todo envio lança erro (simula o WhatsApp fora do ar)
+ */
+export function createFakeSocket(options: { failSends?: boolean } = {}): CommandSocket & { sent: SentMessage[] } {
+  const sent: SentMessage[] = [];
+
+  const sendMessage = async (jid: string, content: any, sendOptions?: any) => {
+    if (options.failSends) {
+      throw new Error('Connection Closed');
+    }
+    sent.push({ jid, text: content?.text, quotedId: sendOptions?.quoted?.key?.id });
+    return undefined;
+  };
+
+  return { sendMessage: sendMessage as CommandSocket['sendMessage'], sent };
+}
+
+export const TEST_GROUP: GroupConfig = {
+  jid: '120363000000000000@g.us',
+  tenantId: DEFAULT_TENANT_ID,
+  name: 'Grupo de teste',
+  queue: 'video-suggestions',
+};
+
+/**
+ * Mensagem de grupo com o texto informado
+ */
+export function createGroupMessage(text: string, participant = '5511999999999@s.whatsapp.net'): WAMessage {
+  return {
+    key: { remoteJid: TEST_GROUP.jid, participant, id: `MSG_${Math.random().toString(36).slice(2)}`, fromMe: false },
+    message: { conversation: text },
+    pushName: 'Participante',
+  } as WAMessage;
+}
@@ -0,0 +1,55 @@
+import type { WAMessage } from '@whiskeysockets/baileys';
+import type { WhatsappSocket } from '../types';
+import type { GroupConfig } from '../config/groups.config';
+
+/**
+ * Papéis de quem executa comandos, do menor para o maior privilégio
+ */
+export type CommandRole = 'member' | 'admin' | 'owner';
+
+/**
+ * Socket mínimo usado pelos comandos (permite um socket falso nos testes)
+ */
+export type CommandSocket = Pick<WhatsappSocket, 'sendMessage'>;
+
+/**
+ * Contexto recebido pelo comando na execução
+ */
+export interface CommandContext<TArgs = string[]> {
+  sock: CommandSocket;
+  msg: WAMessage;
+  chatId: string;
+  senderJid: string;
+  senderName: string;
+  group: GroupConfig;
+  args: TArgs;
+  rawArgs: string[];
+  reply: (text: string) => Promise<void>;
+}
+
+/**
+ * Definição de um comando do bot
+ */
+export interface Command<TArgs = string[]> {
+  name: string;
+  aliases?: string[];
+  description: string;
+  usage?: string;
+  permission: CommandRole;
+  // Converte os argumentos crus; lança createCommandUsageError se forem inválidos
+  parseArgs?: (rawArgs: string[]) => TArgs;
+  execute: (ctx: CommandContext<TArgs>) => Promise<void>;
+}
+
+/**
+ * Erro de uso do comando: o dispatcher responde com a mensagem e o uso correto
+ */
+export function createCommandUsageError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'CommandUsageError';
+  return error;
+}
+
+export function isCommandUsageError(error: any): boolean {
+  return error?.name === 'CommandUsageError';
+}
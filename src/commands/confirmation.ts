@@ -0,0 +1,30 @@
+// Confirmações pendentes de ações destrutivas, por chat + participante + ação
+const pendingConfirmations = new Map<string, number>();
+
+const DEFAULT_CONFIRMATION_TTL_MS = 60 * 1000;
+
+function confirmationKey(chatId: string, senderJid: string, action: string): string {
+  return `${chatId}:${senderJid}:${action}`;
+}
+
+/**
+ * Primeiro passo: registra que a ação aguarda confirmação
+ */
+export function requestConfirmation(
+  chatId: string,
+  senderJid: string,
+  action: string,
+  ttlMs: number = DEFAULT_CONFIRMATION_TTL_MS
+): void {
+  pendingConfirmations.set(confirmationKey(chatId, senderJid, action), Date.now() + ttlMs);
+}
+
+/**
+ * Segundo passo: consome a confirmação se ela existir e não tiver expirado
+ */
+export function consumeConfirmation(chatId: string, senderJid: string, action: string): boolean {
+  const key = confirmationKey(chatId, senderJid, action);
+  const expiresAt = pendingConfirmations.get(key);
+  pendingConfirmations.delete(key);
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
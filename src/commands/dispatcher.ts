@@ -0,0 +1,154 @@
+import type { WAMessage } from '@whiskeysockets/baileys';
+import type { GroupConfig } from '../config/groups.config';
+import type { CommandContext, CommandRole, CommandSocket } from './command.types';
+import type { CommandAuditEntry } from '../services/audit.service';
+import { isCommandUsageError } from './command.types';
+import { findCommand } from './registry';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('CommandDispatcher');
+
+const ROLE_RANK: Record<CommandRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+// Único comando aceito sem barra, mantido do bot antigo
+const LEGACY_BARE_COMMAND = 'status';
+
+export interface DispatchOptions {
+  sock: CommandSocket;
+  msg: WAMessage;
+  text: string;
+  group: GroupConfig;
+  // Resolve o papel de quem enviou a mensagem (padrão: member)
+  resolveRole?: (senderJid: string, group: GroupConfig) => Promise<CommandRole>;
+  // Registra execuções de comandos privilegiados (admin/owner)
+  audit?: (entry: CommandAuditEntry) => Promise<void>;
+}
+
+/**
+ * Verifica se o papel atende à permissão exigida pelo comando
+ */
+export function hasPermission(role: CommandRole, required: CommandRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Separa nome e argumentos do texto da mensagem
+ * Exige a barra ("/comando args"); sem barra, só o legado "status" sozinho
+ */
+export function parseCommandText(text: string): { name: string; rawArgs: string[] } | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const [first, ...rest] = trimmed.split(/\s+/);
+
+  if (first.startsWith('/')) {
+    const name = first.slice(1).toLowerCase();
+    return name ? { name, rawArgs: rest } : null;
+  }
+
+  // Palavras soltas como "top" ou "help" são conversa comum no grupo
+  if (rest.length === 0 && first.toLowerCase() === LEGACY_BARE_COMMAND) {
+    return { name: LEGACY_BARE_COMMAND, rawArgs: [] };
+  }
+
+  return null;
+}
+
+/**
+ * Executa o comando contido no texto, se houver
+ * Retorna true quando a mensagem era um comando (mesmo desconhecido ou com erro)
+ */
+export async function dispatchCommand(options: DispatchOptions): Promise<boolean> {
+  const { sock, msg, text, group } = options;
+  const parsed = parseCommandText(text);
+  if (!parsed) {
+    return false;
+  }
+
+  const chatId = msg.key.remoteJid!;
+  const senderJid = msg.key.participant || chatId;
+  const reply = async (replyText: string) => {
+    await sock.sendMessage(chatId, { text: replyText }, { quoted: msg });
+  };
+
+  // Respostas do próprio dispatcher: falha ao enviar não pode escapar para o handler de mensagens
+  const safeReply = async (replyText: string) => {
+    try {
+      await reply(replyText);
+    } catch (replyError: any) {
+      logger.error(`🔴 [WHATSAPP] Erro ao responder comando: ${replyError.message}`);
+    }
+  };
+
+  const command = findCommand(parsed.name);
+  if (!command) {
+    logger.info(`❓ Comando desconhecido: /${parsed.name}`);
+    await safeReply(`Comando desconhecido: /${parsed.name}\nEnvie /help para ver os comandos disponíveis.`);
+    return true;
+  }
+
+  let role: CommandRole = 'member';
+  let outcome: CommandAuditEntry['outcome'] = 'success';
+  let errorMessage: string | undefined;
+
+  try {
+    role = options.resolveRole ? await options.resolveRole(senderJid, group) : 'member';
+    if (!hasPermission(role, command.permission)) {
+      logger.warn(`🚫 /${command.name} negado para ${senderJid} (papel: ${role})`);
+      outcome = 'denied';
+      await safeReply(`Desculpe, o comando /${command.name} é restrito a ${command.permission === 'owner' ? 'donos' : 'administradores'} do bot. 🙏`);
+    } else {
+      const args = command.parseArgs ? command.parseArgs(parsed.rawArgs) : parsed.rawArgs;
+      const ctx: CommandContext<any> = {
+        sock,
+        msg,
+        chatId,
+        senderJid,
+        senderName: msg.pushName || 'Desconhecido',
+        group,
+        args,
+        rawArgs: parsed.rawArgs,
+        reply,
+      };
+
+      logger.info(`⚙️ Executando /${command.name} (${senderJid})`);
+      await command.execute(ctx);
+      logger.success(`✅ /${command.name} executado`);
+    }
+  } catch (error: any) {
+    errorMessage = error.message;
+
+    if (isCommandUsageError(error)) {
+      outcome = 'usage_error';
+      const usage = command.usage ? `\nUso: ${command.usage}` : '';
+      await safeReply(`${error.message}${usage}`);
+    } else {
+      outcome = 'error';
+      logger.error(`Erro ao executar /${command.name}:`, error);
+      await safeReply(`Erro ao executar /${command.name}. Verifique os logs para mais detalhes.`);
+    }
+  }
+
+  // Auditoria de comandos privilegiados (inclusive tentativas negadas)
+  if (options.audit && command.permission !== 'member') {
+    await options.audit({
+      command: command.name,
+      args: parsed.rawArgs,
+      senderJid,
+      senderName: msg.pushName || 'Desconhecido',
+      chatId,
+      tenantId: group.tenantId,
+      role,
+      requiredPermission: command.permission,
+      outcome,
+      error: errorMessage,
+      createdAt: new Date(),
+    });
+  }
+
+  return true;
+}
@@ -0,0 +1,37 @@
+import type { Command } from './command.types';
+import { getCommands } from './registry';
+
+const PERMISSION_LABELS = {
+  member: '',
+  admin: ' _(admin)_',
+  owner: ' _(dono)_',
+};
+
+/**
+ * Monta a ajuda a partir dos comandos registrados
+ */
+export function buildHelpText(): string {
+  const lines = ['*COMANDOS DISPONÍVEIS*\n'];
+
+  for (const command of getCommands()) {
+    const aliases = command.aliases?.length ? ` (${command.aliases.map(alias => `/${alias}`).join(', ')})` : '';
+    lines.push(`*/${command.name}*${aliases}${PERMISSION_LABELS[command.permission]}`);
+    lines.push(command.description);
+    if (command.usage) {
+      lines.push(`Uso: ${command.usage}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trim();
+}
+
+export const helpCommand: Command = {
+  name: 'help',
+  aliases: ['ajuda', 'comandos'],
+  description: 'Lista os comandos do bot.',
+  permission: 'member',
+  execute: async (ctx) => {
+    await ctx.reply(buildHelpText());
+  },
+};
@@ -0,0 +1,27 @@
+import { registerCommand, getCommands } from './registry';
+import { helpCommand } from './help.command';
+import { statusCommand } from './status.command';
+import { replayCommand } from './replay.command';
+import { purgeCommand } from './purge.command';
+import { statsCommand } from './stats.command';
+import { todayCommand } from './today.command';
+import { topCommand } from './top.command';
+
+/**
+ * Registra os comandos do bot (idempotente)
+ */
+export function registerDefaultCommands(): void {
+  if (getCommands().length > 0) {
+    return;
+  }
+
+  registerCommand(helpCommand);
+  registerCommand(statusCommand);
+  registerCommand(replayCommand);
+  registerCommand(purgeCommand);
+  registerCommand(statsCommand);
+  registerCommand(todayCommand);
+  registerCommand(topCommand);
+}
+
+export { dispatchCommand } from './dispatcher';
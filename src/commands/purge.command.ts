@@ -0,0 +1,56 @@
+import type { Command } from './command.types';
+import { createCommandUsageError } from './command.types';
+import { requestConfirmation, consumeConfirmation } from './confirmation';
+import { getQueueMessageCount, purgeSuggestionsQueue } from '../services/replay.service';
+import { getGroupsSharingQueue } from '../services/group-registry.service';
+
+const PURGE_ACTION = 'purge';
+
+export const purgeCommand: Command<{ confirm: boolean }> = {
+  name: 'purge',
+  description: 'Remove TODAS as mensagens da fila do grupo (os vídeos no MongoDB não são afetados). Pede confirmação.',
+  usage: '/purge e depois /purge confirm',
+  permission: 'admin',
+  parseArgs: (rawArgs) => {
+    if (rawArgs.length === 0) return { confirm: false };
+    if (rawArgs[0].toLowerCase() === 'confirm') return { confirm: true };
+    throw createCommandUsageError(`Argumento inválido: ${rawArgs[0]}`);
+  },
+  execute: async (ctx) => {
+    // Fila compartilhada: limpar apagaria os vídeos pendentes dos outros grupos
+    const sharedWith = await getGroupsSharingQueue(ctx.group);
+    if (sharedWith.length > 0) {
+      await ctx.reply(
+        `🚫 A fila ${ctx.group.queue} é compartilhada com mais ${sharedWith.length} grupo(s) e não pode ser limpa por aqui.
+` +
+        `Configure uma fila própria para o grupo ou use o script purge-queue.`
+      );
+      return;
+    }
+
+    // Passo 1: mostra o impacto e pede confirmação
+    if (!ctx.args.confirm) {
+      const messageCount = await getQueueMessageCount(ctx.group.queue);
+      if (messageCount === 0) {
+        await ctx.reply('✅ A fila já está vazia! Nada para limpar.');
+        return;
+      }
+
+      requestConfirmation(ctx.chatId, ctx.senderJid, PURGE_ACTION);
+      await ctx.reply(
+        `⚠️ *ATENÇÃO*: ${messageCount} mensagem(ns) será(ão) PERMANENTEMENTE removida(s) da fila.\n` +
+        `Envie */purge confirm* em até 1 minuto para confirmar.`
+      );
+      return;
+    }
+
+    // Passo 2: só executa se houver confirmação pendente deste participante
+    if (!consumeConfirmation(ctx.chatId, ctx.senderJid, PURGE_ACTION)) {
+      await ctx.reply('Nenhuma limpeza pendente (ou a confirmação expirou). Envie /purge primeiro.');
+      return;
+    }
+
+    const purged = await purgeSuggestionsQueue(ctx.group.queue);
+    await ctx.reply(`🗑️ Fila limpa! ${purged} mensagem(ns) removida(s).`);
+  },
+};
@@ -0,0 +1,46 @@
+import type { Command } from './command.types';
+
+const commands = new Map<string, Command<any>>();
+const aliases = new Map<string, string>();
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/^\//, '');
+}
+
+/**
+ * Registra um comando e seus aliases
+ */
+export function registerCommand<TArgs>(command: Command<TArgs>): void {
+  const name = normalizeName(command.name);
+  if (commands.has(name) || aliases.has(name)) {
+    throw new Error(`Comando já registrado: ${name}`);
+  }
+
+  commands.set(name, command);
+  for (const alias of command.aliases || []) {
+    aliases.set(normalizeName(alias), name);
+  }
+}
+
+/**
+ * Busca o comando pelo nome ou alias (com ou sem barra)
+ */
+export function findCommand(name: string): Command<any> | undefined {
+  const normalized = normalizeName(name);
+  return commands.get(normalized) || commands.get(aliases.get(normalized) || '');
+}
+
+/**
+ * Lista os comandos registrados, em ordem alfabética
+ */
+export function getCommands(): Command<any>[] {
+  return Array.from(commands.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Remove todos os comandos (útil para testes)
+ */
+export function clearCommands(): void {
+  commands.clear();
+  aliases.clear();
+}
@@ -0,0 +1,54 @@
+import type { Command } from './command.types';
+import { createCommandUsageError } from './command.types';
+import { fetchVideosForReplay, replayVideos } from '../services/replay.service';
+
+interface ReplayArgs {
+  limit?: number; // undefined = todos
+  notPublished: boolean;
+}
+
+export const replayCommand: Command<ReplayArgs> = {
+  name: 'replay',
+  description: 'Reenvia vídeos do grupo salvos no MongoDB para a fila (mais antigos primeiro).',
+  usage: '/replay <n|all> [--not-published]',
+  permission: 'admin',
+  parseArgs: (rawArgs) => {
+    const [amount, ...flags] = rawArgs;
+    const notPublished = flags.includes('--not-published');
+
+    if (!amount) {
+      throw createCommandUsageError('Informe quantos vídeos reenviar.');
+    }
+
+    if (amount.toLowerCase() === 'all' || amount.toLowerCase() === 'todos') {
+      return { notPublished };
+    }
+
+    const limit = parseInt(amount, 10);
+    if (isNaN(limit) || limit < 1) {
+      throw createCommandUsageError('A quantidade deve ser um número maior que 0 ou "all".');
+    }
+
+    return { limit, notPublished };
+  },
+  execute: async (ctx) => {
+    const { limit, notPublished } = ctx.args;
+    const videos = await fetchVideosForReplay({ limit, notPublished, tenantId: ctx.group.tenantId });
+
+    if (videos.length === 0) {
+      await ctx.reply('⚠️ Nenhum vídeo encontrado com esses filtros.');
+      return;
+    }
+
+    await ctx.reply(`📤 Reenviando ${videos.length} vídeo(s)${notPublished ? ' não publicados' : ''}...`);
+
+    const result = await replayVideos(videos, { delayMs: 300 });
+
+    await ctx.reply(
+      `*REPLAY CONCLUÍDO*\n\n` +
+      `✅ Enviados: ${result.sent}\n` +
+      `❌ Falhas: ${result.failed}\n` +
+      `📝 Total: ${result.total}`
+    );
+  },
+};
@@ -0,0 +1,36 @@
+import type { Command } from './command.types';
+import { getSuggestionStats, getQueueMessageCount } from '../services/replay.service';
+import { getGroupsSharingQueue } from '../services/group-registry.service';
+
+export const statsCommand: Command = {
+  name: 'stats',
+  aliases: ['estatisticas'],
+  description: 'Mostra totais de vídeos do grupo, publicados, pendentes no outbox e na fila.',
+  permission: 'admin',
+  execute: async (ctx) => {
+    const stats = await getSuggestionStats(ctx.group.tenantId);
+
+    // A fila pode ser de vários grupos: a profundidade não é só deste
+    const sharedWith = (await getGroupsSharingQueue(ctx.group)).length;
+    const queueLabel = sharedWith > 0
+      ? `Mensagens na fila compartilhada com mais ${sharedWith} grupo(s)`
+      : 'Mensagens na fila';
+
+    let queueLine: string;
+    try {
+      queueLine = `📨 ${queueLabel}: ${await getQueueMessageCount(ctx.group.queue)}`;
+    } catch (error: any) {
+      queueLine = '📨 Fila: indisponível';
+    }
+
+    await ctx.reply(
+      `*ESTATÍSTICAS DOS VÍDEOS*\n\n` +
+      `📹 Total: ${stats.total}\n` +
+      `✅ Publicados: ${stats.published}\n` +
+      `○ Não publicados: ${stats.notPublished}\n` +
+      `⏳ Outbox pendente: ${stats.outboxPending}\n` +
+      `❌ Outbox com falha: ${stats.outboxFailed}\n` +
+      queueLine
+    );
+  },
+};
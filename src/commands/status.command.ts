@@ -1,6 +1,7 @@
 import { connectMongo } from '../services/mongodb.service';
 import { getQueueStatus, isConnected } from '../services/rabbitMQ.service';
 import { createLogger } from '../utils/logger.utils';
+import type { Command } from './command.types';
 
 const logger = createLogger('StatusCommand');
 
@@ -67,3 +68,13 @@ export async function getSystemStatus(): Promise<string> {
 
   return statusLines.join('\n');
 }
+
+export const statusCommand: Command = {
+  name: 'status',
+  description: 'Mostra o estado do MongoDB, RabbitMQ e do processo do bot.',
+  permission: 'admin',
+  execute: async (ctx) => {
+    const statusMessage = await getSystemStatus();
+    await ctx.reply(statusMessage);
+  },
+};
@@ -0,0 +1,65 @@
+import type { Command } from './command.types';
+import { findSuggestionsByChatSince } from '../services/mongodb.service';
+import { buildContactSheet } from '../services/thumbnail.service';
+import { THUMBNAIL_CONFIG } from '../config/thumbnail.config';
+import { DEFAULT_TIMEZONE } from '../config/groups.config';
+
+// Data e hora de parede no fuso informado
+function getZonedParts(date: Date, timezone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  return Object.fromEntries(parts.filter(part => part.type !== 'literal').map(part => [part.type, Number(part.value)]));
+}
+
+// Diferença entre o horário de parede do fuso e o UTC naquele instante
+function getOffsetMs(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Meia-noite de hoje no fuso do grupo (o servidor pode estar em UTC)
+ * Recalcula o offset na própria meia-noite para acertar dias de troca de horário de verão
+ */
+function startOfToday(timezone: string, now = new Date()): Date {
+  const today = getZonedParts(now, timezone);
+  const midnightUtc = Date.UTC(today.year, today.month - 1, today.day);
+  const guess = midnightUtc - getOffsetMs(new Date(midnightUtc), timezone);
+  return new Date(midnightUtc - getOffsetMs(new Date(guess), timezone));
+}
+
+export const todayCommand: Command = {
+  name: 'today',
+  aliases: ['hoje'],
+  description: 'Envia a grade com as sugestões de hoje do grupo.',
+  permission: 'member',
+  execute: async (ctx) => {
+    const { maxTiles } = THUMBNAIL_CONFIG.contactSheet;
+    const suggestions = await findSuggestionsByChatSince(ctx.chatId, startOfToday(ctx.group.quietHours?.timezone || DEFAULT_TIMEZONE));
+
+    if (suggestions.length === 0) {
+      await ctx.reply('📭 Nenhuma sugestão hoje ainda.');
+      return;
+    }
+
+    const shown = suggestions.slice(0, maxTiles);
+    const lines = [`📅 *SUGESTÕES DE HOJE* (${suggestions.length})`, ''];
+    shown.forEach((suggestion, index) => {
+      lines.push(`${index + 1}. ${suggestion.sugeridoPor} — ${suggestion.platform === 'upload' ? (suggestion.texto || 'arquivo enviado') : suggestion.url}`);
+    });
+    if (suggestions.length > shown.length) {
+      lines.push('', `… e mais ${suggestions.length - shown.length}`);
+    }
+
+    const sheet = await buildContactSheet(shown);
+    await ctx.sock.sendMessage(ctx.chatId, { image: sheet, caption: lines.join('\n') }, { quoted: ctx.msg });
+  },
+};
@@ -0,0 +1,42 @@
+import type { Command } from './command.types';
+import { createCommandUsageError } from './command.types';
+import { findTopPending } from '../services/mongodb.service';
+import { VIDEO_CONFIG } from '../config/video.config';
+
+const MAX_TOP = 30;
+
+export const topCommand: Command<number> = {
+  name: 'top',
+  aliases: ['ranking'],
+  description: 'Lista os vídeos pendentes mais votados (reaja na sugestão para votar).',
+  usage: '/top [n]',
+  permission: 'member',
+  parseArgs: (rawArgs) => {
+    if (rawArgs.length === 0) {
+      return VIDEO_CONFIG.voting.topLimit;
+    }
+
+    const limit = parseInt(rawArgs[0], 10);
+    if (isNaN(limit) || limit < 1 || limit > MAX_TOP) {
+      throw createCommandUsageError(`A quantidade deve ser um número entre 1 e ${MAX_TOP}.`);
+    }
+    return limit;
+  },
+  execute: async (ctx) => {
+    const suggestions = await findTopPending(ctx.group.tenantId, ctx.args);
+
+    if (suggestions.length === 0) {
+      await ctx.reply('📭 Nenhum vídeo pendente no momento.');
+      return;
+    }
+
+    const lines = [`🏆 *MAIS VOTADOS* (pendentes)`, ''];
+    suggestions.forEach((suggestion, index) => {
+      const label = suggestion.platform === 'upload' ? (suggestion.texto || 'arquivo enviado') : suggestion.url;
+      lines.push(`${index + 1}. 👍 ${suggestion.priorityScore || 0} — ${label}`);
+      lines.push(`   por ${suggestion.sugeridoPor}`);
+    });
+
+    await ctx.reply(lines.join('\n'));
+  },
+};
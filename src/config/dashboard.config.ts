@@ -0,0 +1,17 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+/**
+ * Painel web (/dashboard) servido pelo próprio bot
+ * Quem entra com DASHBOARD_TOKEN só visualiza; com API_TOKEN também republica, marca falha e remove
+ */
+export const DASHBOARD_CONFIG = {
+  enabled: process.env.DASHBOARD_ENABLED !== 'false',
+  viewerToken: process.env.DASHBOARD_TOKEN || '',
+  cookieName: 'trip_dashboard',
+  sessionHours: parseInt(process.env.DASHBOARD_SESSION_HOURS || '12'),
+  secureCookie: process.env.DASHBOARD_SECURE_COOKIE !== 'false', // Cookie só trafega por HTTPS
+  pageSize: 50,
+  chartDays: 14, // Dias no gráfico de sugestões por dia
+  timezone: process.env.DASHBOARD_TZ || process.env.QUIET_HOURS_TZ || 'America/Sao_Paulo',
+} as const;
@@ -0,0 +1,107 @@
+import dotenv from 'dotenv';
+import { RABBITMQ_CONFIG } from './rabbitmq.config';
+import { RateLimitSettings, parseRateLimit } from './rate-limit.config';
+import { createLogger } from '../utils/logger.utils';
+dotenv.config();
+
+const logger = createLogger('GroupsConfig');
+
+/**
+ * Grupo autorizado e para onde suas sugestões vão
+ */
+export interface GroupConfig {
+  jid: string;
+  tenantId: string; // Viagem/tenant dono do grupo
+  name?: string;
+  queue: string; // Fila de destino das sugestões
+  errorNotificationJid?: string;
+  quietHours?: QuietHours | null; // null desativa o silêncio para o grupo
+  rateLimit?: Partial<RateLimitSettings>; // Sobrescreve RATE_LIMIT_CONFIG
+}
+
+/**
+ * Horário de silêncio: avisos de vídeo pronto ficam guardados e saem num resumo depois
+ * start/end são horas (0-23) no fuso informado; start > end atravessa a meia-noite
+ */
+export interface QuietHours {
+  start: number;
+  end: number;
+  timezone: string;
+}
+
+export const DEFAULT_TENANT_ID = 'default';
+
+// Fuso padrão dos grupos (horário de silêncio e "hoje" do /today)
+export const DEFAULT_TIMEZONE = process.env.QUIET_HOURS_TZ || 'America/Sao_Paulo';
+
+/**
+ * Lê o horário de silêncio de um objeto { start, end, timezone? }
+ */
+export function parseQuietHours(value: any): QuietHours | null | undefined {
+  if (value === null) return null;
+  if (!value || typeof value !== 'object') return undefined;
+
+  const start = Number(value.start);
+  const end = Number(value.end);
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start > 23 || end < 0 || end > 23) {
+    return undefined;
+  }
+
+  return { start, end, timezone: value.timezone || DEFAULT_TIMEZONE };
+}
+
+/**
+ * Grupos definidos no .env
+ * GROUPS_CONFIG: JSON com [{ "jid", "tenantId", "name?", "queue?", "errorNotificationJid?", "quietHours?", "rateLimit?" }]
+ * Sem GROUPS_CONFIG, usa TARGET_GROUP_ID como único grupo (compatível com a configuração antiga)
+ */
+function loadGroupsFromEnv(): GroupConfig[] {
+  const groups: GroupConfig[] = [];
+
+  if (process.env.GROUPS_CONFIG) {
+    try {
+      const parsed = JSON.parse(process.env.GROUPS_CONFIG);
+      for (const group of Array.isArray(parsed) ? parsed : []) {
+        if (!group?.jid) continue;
+        groups.push({
+          jid: group.jid,
+          tenantId: group.tenantId || DEFAULT_TENANT_ID,
+          name: group.name,
+          queue: group.queue || RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS,
+          errorNotificationJid: group.errorNotificationJid,
+          quietHours: parseQuietHours(group.quietHours),
+          rateLimit: parseRateLimit(group.rateLimit),
+        });
+      }
+    } catch (error) {
+      logger.error('GROUPS_CONFIG inválido (JSON esperado), ignorando');
+    }
+  }
+
+  if (process.env.TARGET_GROUP_ID && !groups.some(group => group.jid === process.env.TARGET_GROUP_ID)) {
+    groups.push({
+      jid: process.env.TARGET_GROUP_ID,
+      tenantId: DEFAULT_TENANT_ID,
+      queue: RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS,
+      errorNotificationJid: process.env.ERROR_NOTIFICATION_JID,
+    });
+  }
+
+  return groups;
+}
+
+export const GROUPS_CONFIG = {
+  groups: loadGroupsFromEnv(),
+  // Grupos também podem ser cadastrados na coleção 'groups' do MongoDB
+  useMongoRegistry: process.env.GROUPS_FROM_MONGODB === 'true',
+  cacheTtlMs: 60000,
+  // Notificação de erro quando o grupo não define a sua
+  defaultErrorNotificationJid: process.env.ERROR_NOTIFICATION_JID || process.env.TARGET_GROUP_ID,
+  // Silêncio padrão dos grupos (ex.: QUIET_HOURS=23-8)
+  defaultQuietHours: process.env.QUIET_HOURS
+    ? parseQuietHours({
+      start: process.env.QUIET_HOURS.split('-')[0],
+      end: process.env.QUIET_HOURS.split('-')[1],
+    }) || null
+    : null,
+};
@@ -0,0 +1,17 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const HTTP_CONFIG = {
+  enabled: process.env.HTTP_ENABLED !== 'false',
+  host: process.env.HTTP_HOST || '0.0.0.0',
+  port: parseInt(process.env.HTTP_PORT || '3000'),
+  // Token estático exigido em Authorization: Bearer <token> nas rotas /api (sem token, a API fica desativada)
+  apiToken: process.env.API_TOKEN || '',
+  pagination: {
+    defaultPageSize: 20,
+    maxPageSize: 100,
+  },
+  // Tempo máximo de cada verificação do /readyz
+  readinessTimeoutMs: 3000,
+  maxBodyBytes: 1024 * 1024,
+} as const;
@@ -0,0 +1,19 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const MEDIA_CONFIG = {
+  // Vídeos e imagens enviados direto no grupo (sem link)
+  enabled: process.env.MEDIA_UPLOADS !== 'false',
+
+  // Backend de armazenamento dos arquivos ('local' por enquanto)
+  storage: (process.env.MEDIA_STORAGE || 'local') as 'local',
+  localDir: process.env.MEDIA_LOCAL_DIR || './data/media',
+  // URL pública que serve localDir (opcional); sem ela os workers recebem o mediaRef
+  publicBaseUrl: process.env.MEDIA_PUBLIC_BASE_URL,
+
+  // Limites de tamanho por tipo (bytes)
+  maxBytes: {
+    video: parseInt(process.env.MEDIA_MAX_VIDEO_BYTES || String(64 * 1024 * 1024)),
+    image: parseInt(process.env.MEDIA_MAX_IMAGE_BYTES || String(16 * 1024 * 1024)),
+  },
+} as const;
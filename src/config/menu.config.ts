@@ -0,0 +1,44 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export interface MenuOption {
+  id: string; // Valor salvo em metadata.<field>
+  label: string;
+}
+
+export interface MenuDefinition {
+  field: string; // Chave em metadata da sugestão
+  title: string;
+  options: MenuOption[]; // Até 3 (limite de botões do WhatsApp)
+}
+
+/**
+ * Menus de resposta rápida enviados após cada nova sugestão
+ * Clientes sem botões respondem citando o menu com o número da opção
+ * Desligados por padrão (QUICK_REPLY_MENUS=true liga): são duas mensagens do bot por link
+ */
+export const MENU_CONFIG = {
+  enabled: process.env.QUICK_REPLY_MENUS === 'true',
+  // Por quanto tempo um menu aceita respostas
+  ttlDays: parseInt(process.env.QUICK_REPLY_MENU_TTL_DAYS || '7'),
+
+  menus: [
+    {
+      field: 'priority',
+      title: 'Prioridade',
+      options: [
+        { id: 'high', label: '🔥 Alta' },
+        { id: 'normal', label: '👌 Normal' },
+      ],
+    },
+    {
+      field: 'category',
+      title: 'Categoria',
+      options: [
+        { id: 'food', label: '🍽️ Comida' },
+        { id: 'landscape', label: '🏞️ Paisagem' },
+        { id: 'funny', label: '😂 Engraçado' },
+      ],
+    },
+  ] as MenuDefinition[],
+};
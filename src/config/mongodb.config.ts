@@ -1,6 +1,10 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
+/**
+ * Use um replica set (ou mongos): outbox, remoção e auth state usam transações (standalone grava sem elas)
+ * Em desenvolvimento, um mongod de um nó só com --replSet já basta
+ */
 export const MONGODB_CONFIG = {
   uri: process.env.MONGODB_URI || 'mongodb://localhost:27017',
   database: process.env.MONGODB_DATABASE || 'trip-videos',
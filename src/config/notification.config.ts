@@ -0,0 +1,23 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+/**
+ * Aviso de vídeo pronto para quem sugeriu
+ * O worker envia no evento processing.completed: output.resultUrl, output.thumbnailUrl e output.caption
+ */
+export const NOTIFICATION_CONFIG = {
+  enabled: process.env.COMPLETION_NOTIFICATIONS !== 'false',
+
+  // Conclusões próximas são agrupadas numa só mensagem (resumo)
+  batchWindowMs: parseInt(process.env.NOTIFICATION_BATCH_WINDOW || '60000'),
+  flushIntervalMs: parseInt(process.env.NOTIFICATION_FLUSH_INTERVAL || '30000'),
+  maxDigestItems: 20, // Itens listados no resumo; o restante vira "+N"
+
+  // Prévia em JPEG enviada na resposta (a partir da thumbnail da sugestão)
+  preview: {
+    width: 480,
+    quality: 80,
+  },
+
+  captionMaxLength: 300,
+} as const;
@@ -0,0 +1,16 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const OUTBOX_CONFIG = {
+  pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL || '5000'),
+  batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '20'),
+  lockMs: 30000, // Tempo máximo de reserva de um registro durante a publicação
+  maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10'),
+
+  // Backoff exponencial entre tentativas de publicação
+  retry: {
+    initialDelay: 2000,
+    maxDelay: 300000,
+    backoffMultiplier: 2,
+  },
+} as const;
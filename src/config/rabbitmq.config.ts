@@ -5,9 +5,40 @@ const RABBITMQ_CONFIG = {
   url: process.env.RABBITMQ_URL || 'amqp://localhost',
   reconnectDelay: parseInt(process.env.RABBITMQ_RECONNECT_DELAY || '5000'),
   maxRetries: parseInt(process.env.RABBITMQ_MAX_RETRIES || '5'),
+  // Publisher confirms: publicação só resolve após ack do broker
+  // Com RABBITMQ_PUBLISHER_CONFIRMS=false a publicação resolve assim que entra no canal: o outbox
+  // dá baixa sem o broker ter confirmado, e uma queda da conexão nesse intervalo perde a mensagem
+  // (o replay --not-published não a encontra, pois ela já consta como publicada). Só para testes locais
+  publisherConfirms: process.env.RABBITMQ_PUBLISHER_CONFIRMS !== 'false',
+  // Tempo máximo de espera por publicação (buffer + confirmação do broker)
+  publishTimeoutMs: parseInt(process.env.RABBITMQ_PUBLISH_TIMEOUT || '10000'),
   queues: {
-    VIDEO_SUGGESTIONS: 'video-suggestions' // Fila para event-driven de vídeos
-  }
+    VIDEO_SUGGESTIONS: 'video-suggestions', // Fila para event-driven de vídeos
+    VIDEO_SUGGESTIONS_DLQ: 'video-suggestions.dlq', // Mensagens rejeitadas pelos consumidores
+    VIDEO_SUGGESTION_EVENTS: 'video-suggestions.events' // Eventos de processamento enviados pelos workers
+  },
+  // Mensagens não confirmadas entregues por vez ao consumidor de eventos
+  eventsPrefetch: parseInt(process.env.RABBITMQ_EVENTS_PREFETCH || '10'),
+  exchanges: {
+    DEAD_LETTER: 'video-suggestions.dlx', // Recebe mensagens rejeitadas/expiradas
+    RETRY: 'video-suggestions.retry' // Filas de espera com TTL (<fila>.retry.<delay>ms) que devolvem à fila de origem
+  },
+  // Delays das filas de retry (ms), um por tentativa: 10s, 1min, 5min
+  retryDelaysMs: (process.env.RABBITMQ_RETRY_DELAYS || '10000,60000,300000')
+    .split(',')
+    .map(delay => parseInt(delay.trim()))
+    .filter(delay => delay > 0),
+  // Como a fila principal e as filas de grupo recebem o dead-letter exchange:
+  // - 'policy': filas declaradas só com durable (compatível com a fila existente);
+  //   o DLX vem de uma policy do broker que cobre a principal e as filas de grupo:
+  //   rabbitmqctl set_policy video-suggestions-dlx "^video-suggestions(-.+)?$" \
+  //     '{"dead-letter-exchange":"video-suggestions.dlx"}' --apply-to queues
+  // - 'arguments': filas declaradas com x-dead-letter-exchange (instalação nova ou
+  //   depois de rodar `npm run migrate-queue`, que recria a fila preservando as mensagens)
+  deadLetterMode: (process.env.RABBITMQ_DEAD_LETTER_MODE === 'arguments' ? 'arguments' : 'policy') as 'policy' | 'arguments',
+  // Padrão da policy acima: filas de grupo fora dele ficam sem DLX (avisado no log ao declarar)
+  // Nomeie as filas de grupo como video-suggestions-<grupo> ou inclua-as na policy
+  deadLetterPolicyPattern: process.env.RABBITMQ_DEAD_LETTER_POLICY_PATTERN || '^video-suggestions(-.+)?$'
 } as const;
 
 const QUEUE_CONFIG = {
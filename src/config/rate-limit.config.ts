@@ -0,0 +1,62 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+/**
+ * Balde de tokens: capacity sugestões de uma vez, recarregando refillPerMinute por minuto
+ */
+export interface BucketLimit {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+/**
+ * Limites de sugestões (globais ou sobrescritos por grupo)
+ * - 'reject': descarta a sugestão, reage com ⏳ e explica no privado
+ * - 'defer': salva como 'deferred' e o outbox libera quando houver token (até maxDeferred na fila de espera)
+ */
+export interface RateLimitSettings {
+  enabled: boolean;
+  user: BucketLimit; // Por participante no grupo
+  group: BucketLimit; // Pelo grupo inteiro
+  action: 'reject' | 'defer';
+  maxDeferred: number;
+}
+
+function parseBucket(value: any): BucketLimit | undefined {
+  const capacity = Number(value?.capacity);
+  const refillPerMinute = Number(value?.refillPerMinute);
+  if (!(capacity >= 1) || !(refillPerMinute > 0)) {
+    return undefined;
+  }
+  return { capacity, refillPerMinute };
+}
+
+/**
+ * Lê a sobrescrita de limites de um grupo ({ enabled?, user?, group?, action?, maxDeferred? })
+ * Campos inválidos são ignorados e caem no padrão global
+ */
+export function parseRateLimit(value: any): Partial<RateLimitSettings> | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+
+  const settings: Partial<RateLimitSettings> = {};
+  if (typeof value.enabled === 'boolean') settings.enabled = value.enabled;
+  if (parseBucket(value.user)) settings.user = parseBucket(value.user);
+  if (parseBucket(value.group)) settings.group = parseBucket(value.group);
+  if (value.action === 'reject' || value.action === 'defer') settings.action = value.action;
+  if (Number.isInteger(value.maxDeferred) && value.maxDeferred >= 0) settings.maxDeferred = value.maxDeferred;
+  return settings;
+}
+
+export const RATE_LIMIT_CONFIG: RateLimitSettings = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  user: {
+    capacity: parseInt(process.env.RATE_LIMIT_USER_CAPACITY || '5'),
+    refillPerMinute: parseFloat(process.env.RATE_LIMIT_USER_PER_MINUTE || '1'),
+  },
+  group: {
+    capacity: parseInt(process.env.RATE_LIMIT_GROUP_CAPACITY || '30'),
+    refillPerMinute: parseFloat(process.env.RATE_LIMIT_GROUP_PER_MINUTE || '10'),
+  },
+  action: (process.env.RATE_LIMIT_ACTION || 'reject') as 'reject' | 'defer',
+  maxDeferred: parseInt(process.env.RATE_LIMIT_MAX_DEFERRED || '10'),
+};
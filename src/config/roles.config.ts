@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+function parseJidList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(jid => jid.trim())
+    .filter(Boolean);
+}
+
+export const ROLES_CONFIG = {
+  // JIDs ou números (ex.: 5519999999999) separados por vírgula
+  owners: parseJidList(process.env.BOT_OWNERS),
+  admins: parseJidList(process.env.BOT_ADMINS),
+
+  // Papéis também podem ser cadastrados na coleção 'bot_roles' do MongoDB
+  // ({ jid, role: 'owner' | 'admin', tenantId? })
+  useMongoRoles: process.env.ROLES_FROM_MONGODB === 'true',
+
+  // Admins do grupo no WhatsApp (groupMetadata) viram admins do bot
+  syncGroupAdmins: process.env.ROLES_SYNC_GROUP_ADMINS === 'true',
+
+  cacheTtlMs: 5 * 60 * 1000,
+};
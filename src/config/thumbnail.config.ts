@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const THUMBNAIL_CONFIG = {
+  // Download de imagens externas (thumbnail/poster enviados pelos workers)
+  download: {
+    maxBytes: 5 * 1024 * 1024,
+    timeoutMs: 10000,
+  },
+
+  // Thumbnail normalizada gravada junto da sugestão (WebP quadrado)
+  size: parseInt(process.env.THUMBNAIL_SIZE || '320'),
+  quality: 80,
+
+  // Contact sheet do /today (grade com as sugestões do dia)
+  contactSheet: {
+    columns: 4,
+    tileSize: 240,
+    gap: 8,
+    maxTiles: 24,
+    background: '#1f1f1f',
+    placeholder: '#3a3a3a',
+    quality: 85,
+  },
+} as const;
@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const VIDEO_CONFIG = {
+  // Aceita links que não são de plataformas de vídeo conhecidas (platform 'other')
+  allowNonVideoLinks: process.env.ALLOW_NON_VIDEO_LINKS === 'true',
+
+  // Parâmetros de rastreamento removidos da URL canônica
+  trackingParams: ['si', 'igsh', 'igshid', 'fbclid', 'gclid', 'mibextid', 'feature'] as readonly string[],
+  trackingParamPrefixes: ['utm_'] as readonly string[],
+
+  // Links curtos (vm.tiktok.com, fb.watch) são resolvidos seguindo o redirect
+  shortLinkResolveTimeoutMs: parseInt(process.env.SHORT_LINK_RESOLVE_TIMEOUT || '5000'),
+
+  // Reação na mensagem original para cada status da sugestão (⏳ → 🎬 → ✅/❌)
+  statusReactions: {
+    deferred: '🕒',
+    pending: '⏳',
+    processing: '🎬',
+    completed: '✅',
+    failed: '❌',
+  },
+
+  // Vídeo já sugerido por outro membro (mesma plataforma + videoId)
+  // - 'reject': avisa quem sugeriu antes e não publica de novo
+  // - 'resuggest': permite sugerir de novo após resuggestAfterDays dias
+  // - 'upvote': conta como voto na sugestão existente
+  duplicates: {
+    policy: (process.env.DUPLICATE_POLICY || 'reject') as 'reject' | 'resuggest' | 'upvote',
+    resuggestAfterDays: parseInt(process.env.DUPLICATE_RESUGGEST_AFTER_DAYS || '30'),
+    reaction: '🔁',
+  },
+
+  // Reações dos membros na mensagem da sugestão contam como voto (um por participante)
+  // voteEmojis vazio = qualquer emoji conta; trocar por um emoji fora da lista desfaz o voto
+  // O ranking (priorityScore = votos + re-sugestões) é lido pelos workers e pelo /top
+  voting: {
+    enabled: process.env.REACTION_VOTING !== 'false',
+    voteEmojis: (process.env.VOTE_EMOJIS || '').split(',').map(e => e.trim()).filter(Boolean),
+    topLimit: 10,
+  },
+} as const;
@@ -1,5 +1,16 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
 export const WHATSAPP_CONFIG = {
   authStatePath: 'auth',
+  // Onde fica a sessão: 'file' (pasta authStatePath) ou 'mongo' (coleção whatsapp_auth)
+  // Para trocar de 'file' para 'mongo' sem parear de novo: npm run migrate-auth
+  authState: {
+    backend: (process.env.AUTH_STATE_BACKEND === 'mongo' ? 'mongo' : 'file') as 'file' | 'mongo',
+    sessionId: process.env.AUTH_SESSION_ID || 'default',
+    // Chaves Signal mantidas em memória no backend 'mongo' (as menos usadas saem primeiro)
+    keyCacheMaxEntries: parseInt(process.env.AUTH_KEY_CACHE_MAX_ENTRIES || '5000'),
+  },
   loggerLevel: 'silent' as const,
   browser: ['WhatsApp Bot', 'Chrome', '1.0.0'] as [string, string, string],
   targetJid: '5519987428185@s.whatsapp.net',
@@ -18,6 +29,33 @@ export const WHATSAPP_CONFIG = {
     },
   },
 
+  // Mensagens já tratadas ficam registradas no MongoDB (processed_messages) por este tempo
+  // Cobre restart do pm2 e a reentrega de histórico do Baileys após reconectar
+  dedupeTtlHours: parseInt(process.env.DEDUPE_TTL_HOURS || '168'),
+
+  // Recuperação de mensagens enviadas enquanto o bot estava offline (upsert 'append' e history sync)
+  catchUp: {
+    enabled: process.env.CATCH_UP_ENABLED !== 'false',
+    // Mensagens mais antigas que isso são ignoradas, mesmo acima da marca do grupo
+    maxLookbackHours: parseInt(process.env.CATCH_UP_MAX_LOOKBACK_HOURS || '24'),
+    // Espera o histórico parar de chegar antes de mandar o resumo no grupo
+    summaryDelayMs: 15000,
+  },
+
+  // Mensagens guardadas no MongoDB para o getMessage (reenvio em retry receipts) e para citar sugestões
+  messageStore: {
+    ttlDays: parseInt(process.env.MESSAGE_STORE_TTL_DAYS || '14'),
+    maxEntries: parseInt(process.env.MESSAGE_STORE_MAX_ENTRIES || '50000'),
+    pruneEvery: 500, // Verifica o limite de tamanho a cada N gravações
+  },
+
+  // Pareamento pelo painel web (/dashboard/pairing)
+  pairing: {
+    printQrInTerminal: process.env.PRINT_QR_TERMINAL !== 'false',
+    qrPngSize: 400, // Lado do PNG do QR em pixels
+    pageRefreshSeconds: 5, // O WhatsApp troca o QR a cada ~20s
+  },
+
   // Configuração de timeout
   connection: {
     timeoutMs: 60000,
@@ -1,111 +1,467 @@
-import { MessagesUpsert } from '../types';
+import type { WAMessage } from '@whiskeysockets/baileys';
+import { MessagesUpsert, WhatsappSocket } from '../types';
 import { createLogger } from '../utils/logger.utils';
-import { saveVideoSuggestion, markAsPublished } from '../services/mongodb.service';
-import { publishVideoSuggestion } from '../services/rabbitMQ.service';
-import { getSystemStatus } from '../commands/status.command';
+import { saveVideoSuggestion, findByMessageId, VideoSuggestion } from '../services/mongodb.service';
+import { publishFromOutbox } from '../services/outbox.service';
+import { isPublishTimeoutError } from '../services/rabbitMQ.service';
+import { extractVideoUrls, ParsedVideoUrl } from '../utils/video-url.utils';
+import { loadQuotedSuggestion, storeMessage } from '../services/message-store.service';
+import { checkDuplicateVideo, formatDuplicateReply, DuplicateDecision } from '../services/duplicate.service';
+import { getGroupConfig, getErrorNotificationJid } from '../services/group-registry.service';
+import { VIDEO_CONFIG } from '../config/video.config';
+import { GroupConfig } from '../config/groups.config';
+import { dispatchCommand, registerDefaultCommands } from '../commands';
+import { resolveRole, getJidUser } from '../services/roles.service';
+import { recordCommandAudit } from '../services/audit.service';
 import { sendErrorNotification } from '../utils/error-notification.utils';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { MEDIA_CONFIG } from '../config/media.config';
+import { getMediaContent, downloadMessageMedia, storeMedia, isMediaTooLargeError } from '../services/media.service';
+import { storeThumbnail } from '../services/thumbnail.service';
+import { sendSuggestionMenus, parseMenuSelection, applyMenuSelection, MenuSelection } from '../services/quick-reply.service';
+import { checkSuggestionRateLimit, formatRateLimitMessage, RateLimitDecision } from '../services/rate-limit.service';
+import { claimMessage } from '../services/dedupe.service';
+import { advanceWatermark, getCatchUpWatermark, shouldCatchUp, recordCatchUpSuggestions } from '../services/catch-up.service';
+import { incrementCounter, METRICS } from '../services/metrics.service';
 
 const logger = createLogger('MessageHandler');
 
-// JID para notificações de erro (pode ser diferente do grupo de sugestões)
-const ERROR_NOTIFICATION_JID = process.env.ERROR_NOTIFICATION_JID || process.env.TARGET_GROUP_ID;
+registerDefaultCommands();
+
+/**
+ * Reivindica a mensagem no MongoDB antes de processar (no máximo uma vez, mesmo após restart)
+ * Se o MongoDB estiver fora, segue sem a reivindicação: o índice único de messageId ainda evita duplicar sugestões
+ */
+async function isDuplicateMessage(chatId: string, keyId: string): Promise<boolean> {
+  try {
+    return !(await claimMessage(chatId, keyId));
+  } catch (error: any) {
+    logger.warn(`⚠️ [MONGODB] Falha ao reivindicar mensagem ${keyId}: ${error.message}`);
+    return false;
+  }
+}
+
+// Resultado do processamento de um link da mensagem
+// 'limited': descartado pelo limite de sugestões; 'deferred': salvo e liberado depois pelo outbox
+type SuggestionOutcome = 'saved' | 'deferred' | 'limited' | 'duplicate' | 'failed';
+
+// Campos da mídia enviada direto no grupo
+type SuggestionMediaFields = Pick<VideoSuggestion, 'mediaRef' | 'mediaKind' | 'mediaMimeType' | 'mediaSize' | 'mediaSha256' | 'thumbnailRef'>;
+
+// Dados da mensagem compartilhados por todos os links dela
+interface SuggestionContext {
+  sock: WhatsappSocket;
+  msg: WAMessage;
+  group: GroupConfig;
+  text: string;
+  pushName: string;
+  senderJid: string;
+  sourceMessageId: string;
+  isCatchUp: boolean; // Recuperada após ficar offline
+}
 
-const TARGET_GROUP_ID = process.env.TARGET_GROUP_ID;
+async function reactToMessage(sock: WhatsappSocket, msg: WAMessage, emoji: string): Promise<void> {
+  try {
+    await sock.sendMessage(msg.key.remoteJid!, {
+      react: { text: emoji, key: msg.key }
+    });
+    incrementCounter(METRICS.reactionsSent, { emoji });
+    logger.success(`✅ [WHATSAPP] Reação ${emoji} enviada com sucesso`);
+  } catch (reactError: any) {
+    logger.error(`🔴 [WHATSAPP] Erro ao reagir com ${emoji}: ${reactError.message}`);
+  }
+}
 
-const processedMessages = new Map<string, number>();
-const CACHE_DURATION = 5 * 60 * 1000;
-const CLEANUP_INTERVAL = 60 * 1000;
+/**
+ * Uma reação por mensagem: ❌ se algum item falhou, ⏳ (na fila ou barrado pelo limite) se algum foi salvo,
+ * 🕒 se tudo ficou adiado, 🔁 se todos repetidos
+ * Os eventos dos workers trocam a reação depois (🎬 → ✅/❌)
+ */
+async function reactWithOutcomes(sock: WhatsappSocket, msg: WAMessage, outcomes: SuggestionOutcome[]): Promise<void> {
+  if (outcomes.includes('failed')) {
+    await reactToMessage(sock, msg, '❌');
+  } else if (outcomes.includes('saved') || outcomes.includes('limited')) {
+    await reactToMessage(sock, msg, VIDEO_CONFIG.statusReactions.pending);
+  } else if (outcomes.includes('deferred')) {
+    await reactToMessage(sock, msg, VIDEO_CONFIG.statusReactions.deferred);
+  } else {
+    await reactToMessage(sock, msg, VIDEO_CONFIG.duplicates.reaction);
+  }
+}
+
+// ✅ Garantir que messageId sempre existe
+function getSourceMessageId(msg: WAMessage): string {
+  if (msg.key.id && msg.key.id.trim() !== '') {
+    return msg.key.id;
+  }
+
+  const generated = `whatsapp_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  logger.warn(`⚠️ Mensagem sem key.id, gerando messageId: ${generated}`);
+  return generated;
+}
+
+/**
+ * Vídeo já sugerido por outro membro? (plataforma + videoId no tenant)
+ * Responde citando a sugestão original e retorna true se não deve seguir como nova
+ */
+async function replyIfDuplicate(ctx: SuggestionContext, video: Pick<ParsedVideoUrl, 'platform' | 'videoId'>, messageId: string): Promise<boolean> {
+  let duplicate: DuplicateDecision = { action: 'new' };
+  try {
+    duplicate = await checkDuplicateVideo(video, messageId, ctx.senderJid, ctx.group.tenantId);
+  } catch (duplicateError: any) {
+    // Na dúvida, segue como sugestão nova (o messageId único evita duplicar a mesma mensagem)
+    logger.warn(`⚠️ [MONGODB] Falha ao verificar vídeo repetido: ${duplicateError.message}`);
+  }
+
+  if (duplicate.action === 'new') {
+    return false;
+  }
+
+  try {
+    await ctx.sock.sendMessage(
+      ctx.msg.key.remoteJid!,
+      { text: formatDuplicateReply(duplicate) },
+      { quoted: await loadQuotedSuggestion(duplicate.original) }
+    );
+    logger.info(`🔁 Vídeo repetido respondido - não publicado novamente`);
+  } catch (replyError: any) {
+    logger.error(`🔴 [WHATSAPP] Erro ao responder vídeo repetido: ${replyError.message}`);
+  }
+  return true;
+}
 
-// Limpa cache de mensagens antigas
-setInterval(() => {
-  const now = Date.now();
-  for (const [key, timestamp] of processedMessages.entries()) {
-    if (now - timestamp > CACHE_DURATION) {
-      processedMessages.delete(key);
+/**
+ * Salva e publica um link de vídeo da mensagem como sugestão própria
+ * O primeiro link usa o key.id da mensagem como messageId; os demais recebem sufixo _N
+ */
+async function processVideoSuggestion(
+  ctx: SuggestionContext,
+  video: ParsedVideoUrl,
+  urlIndex: number,
+  media?: SuggestionMediaFields
+): Promise<SuggestionOutcome> {
+  const { sock, msg, group } = ctx;
+  const remoteJid = msg.key.remoteJid!;
+  const errorNotificationJid = getErrorNotificationJid(group);
+  const messageId = urlIndex === 0 ? ctx.sourceMessageId : `${ctx.sourceMessageId}_${urlIndex}`;
+
+  logger.info(`🔗 URL extraída: ${video.canonicalUrl} (${video.platform}:${video.videoId})`);
+
+  // PASSO 0: Vídeo já sugerido por outro membro? (mídia enviada no grupo já foi checada antes do download)
+  if (!media && await replyIfDuplicate(ctx, video, messageId)) {
+    return 'duplicate';
+  }
+
+  // PASSO 0.5: Limite de sugestões por participante e por grupo (admins isentos)
+  // Recuperadas ficam de fora: foram enviadas ao longo da queda, não numa rajada agora
+  let rateLimit: RateLimitDecision = { action: 'allow' };
+  try {
+    if (!ctx.isCatchUp) {
+      const exempt = (await resolveRole(ctx.senderJid, group, sock)) !== 'member';
+      rateLimit = await checkSuggestionRateLimit(group, ctx.senderJid, exempt);
+    }
+  } catch (rateLimitError: any) {
+    // Na dúvida, deixa passar (o limite não pode derrubar as sugestões)
+    logger.warn(`⚠️ [MONGODB] Falha ao verificar limite de sugestões: ${rateLimitError.message}`);
+  }
+
+  if (rateLimit.action === 'reject') {
+    try {
+      await sock.sendMessage(ctx.senderJid, { text: formatRateLimitMessage(rateLimit, group.name) });
+    } catch (dmError: any) {
+      logger.error(`🔴 [WHATSAPP] Erro ao avisar limite no privado: ${dmError.message}`);
+    }
+    return 'limited';
+  }
+
+  const releaseAt = rateLimit.action === 'defer' ? rateLimit.releaseAt : undefined;
+  if (releaseAt) {
+    logger.info(`🕒 Sugestão adiada pelo limite até ${releaseAt.toLocaleTimeString('pt-BR')}`);
+  }
+
+  // PASSO 1: Salvar no MongoDB junto com o registro do outbox (fonte da verdade)
+  const videoData = {
+    url: video.canonicalUrl,
+    originalUrl: video.originalUrl,
+    platform: video.platform,
+    videoId: video.videoId,
+    texto: ctx.text,
+    sugeridoPor: ctx.pushName,
+    sugeridoPorJid: ctx.senderJid,
+    messageId: messageId,
+    sourceMessageId: ctx.sourceMessageId,
+    urlIndex,
+    chatId: remoteJid,
+    tenantId: group.tenantId,
+    timestamp: Date.now(),
+    status: releaseAt ? 'deferred' as const : 'pending' as const,
+    ...media
+  };
+
+  let savedDoc;
+  try {
+    savedDoc = await saveVideoSuggestion(videoData, group.queue, releaseAt);
+    logger.success(`✅ Salvo no MongoDB: ${savedDoc._id}`);
+    incrementCounter(METRICS.suggestionsSaved, { platform: videoData.platform });
+  } catch (mongoError: any) {
+    // Erro específico do MongoDB
+    const errorMsg = mongoError.message || mongoError.toString();
+    logger.error(`🔴 [WHATSAPP → MONGODB] Falha ao salvar vídeo no banco de dados: ${errorMsg}`);
+    
+    // Enviar notificação de erro no WhatsApp
+    if (errorNotificationJid) {
+      await sendErrorNotification(sock, errorNotificationJid, {
+        type: 'MONGODB',
+        operation: 'salvar vídeo sugerido',
+        message: errorMsg
+      });
     }
+    
+    // Não continua o fluxo se falhou no MongoDB
+    return 'failed';
+  }
+
+  // Adiada: o relay do outbox publica quando chegar a hora
+  if (releaseAt) {
+    await sendSuggestionMenus(sock, savedDoc);
+    return 'deferred';
   }
-}, CLEANUP_INTERVAL);
 
-function isAllowedGroup(remoteJid: string | null | undefined): boolean {
-  return remoteJid === TARGET_GROUP_ID;
+  // PASSO 2: Publicar via outbox (o relay em background refaz se falhar)
+  try {
+    const published = await publishFromOutbox(savedDoc.messageId);
+    if (published) {
+      logger.success(`✅ Publicado na fila ${group.queue} (confirmado pelo broker)`);
+    }
+  } catch (rabbitError: any) {
+    // Erro específico do RabbitMQ
+    const errorMsg = rabbitError.message || rabbitError.toString();
+
+    // Timeout: o broker pode ter recebido, só não confirmou a tempo
+    const operation = isPublishTimeoutError(rabbitError)
+      ? 'confirmar publicação na fila'
+      : 'publicar vídeo na fila';
+    logger.error(`🔴 [WHATSAPP → RABBITMQ] Falha ao ${operation}: ${errorMsg}`);
+    
+    // Enviar notificação de erro no WhatsApp
+    if (errorNotificationJid) {
+      await sendErrorNotification(sock, errorNotificationJid, {
+        type: 'RABBITMQ',
+        operation,
+        message: errorMsg
+      });
+    }
+    
+    // Continua mesmo com erro no RabbitMQ (já está salvo no MongoDB)
+    // O registro segue pendente no outbox e o relay tenta novamente
+  }
+
+  // PASSO 3: Menus de prioridade/categoria (fora da recuperação, para não inundar o grupo na volta)
+  if (!ctx.isCatchUp) {
+    await sendSuggestionMenus(sock, savedDoc);
+  }
+
+  return 'saved';
 }
 
-function isDuplicateMessage(messageId: string): boolean {
-  if (processedMessages.has(messageId)) {
-    logger.info(`Mensagem duplicada ignorada: ${messageId}`);
-    return true;
+/**
+ * Aplica a escolha feita num menu de sugestão
+ * Só quem sugeriu ou admins podem escolher
+ */
+async function processMenuSelection(
+  sock: WhatsappSocket,
+  msg: WAMessage,
+  group: GroupConfig,
+  selection: MenuSelection
+): Promise<void> {
+  const senderJid = msg.key.participant || msg.key.remoteJid!;
+
+  const suggestion = await findByMessageId(selection.suggestionMessageId);
+  if (!suggestion) {
+    logger.warn(`⚠️ Escolha de menu para sugestão inexistente: ${selection.suggestionMessageId}`);
+    return;
+  }
+
+  const isSuggester = !!suggestion.sugeridoPorJid && getJidUser(suggestion.sugeridoPorJid) === getJidUser(senderJid);
+  if (!isSuggester && (await resolveRole(senderJid, group, sock)) === 'member') {
+    logger.info(`🚫 ${senderJid} não pode escolher ${selection.menu.field} de ${suggestion.messageId}`);
+    return;
+  }
+
+  const updated = await applyMenuSelection(selection);
+  if (updated) {
+    await reactToMessage(sock, msg, '👌');
   }
-  processedMessages.set(messageId, Date.now());
-  return false;
 }
 
 /**
- * Extrai URL de vídeo da mensagem
- * Suporta: YouTube Shorts, TikTok, Instagram Reels, YouTube normal
+ * Avisa a falha ao baixar/gravar a mídia (arquivo grande demais ganha resposta no grupo)
  */
-function extractVideoUrl(text: string): string | null {
-  // Padrões de URL para cada plataforma
-  const patterns = [
-    // YouTube Shorts
-    /https?:\/\/(www\.)?(youtube\.com\/shorts\/[a-zA-Z0-9_-]+|youtu\.be\/[a-zA-Z0-9_-]+)/i,
-    // YouTube normal
-    /https?:\/\/(www\.)?(youtube\.com\/watch\?v=[a-zA-Z0-9_-]+|youtu\.be\/[a-zA-Z0-9_-]+)/i,
-    // TikTok
-    /https?:\/\/(www\.)?(tiktok\.com\/@[a-zA-Z0-9._]+\/video\/[0-9]+|vm\.tiktok\.com\/[a-zA-Z0-9]+)/i,
-    // Instagram Reels
-    /https?:\/\/(www\.)?instagram\.com\/(reel|p)\/[a-zA-Z0-9_-]+/i,
-    // Facebook Watch
-    /https?:\/\/(www\.)?(facebook\.com\/watch\/?\?v=[0-9]+|fb\.watch\/[a-zA-Z0-9_-]+)/i,
-    // Twitter/X Video
-    /https?:\/\/(www\.)?(twitter\.com|x\.com)\/[a-zA-Z0-9_]+\/status\/[0-9]+/i,
-    // Qualquer outra URL como fallback
-    /https?:\/\/[^\s]+/i
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    if (match) {
-      // Limpar possíveis caracteres extras no final
-      let url = match[0];
-      // Remover pontuação comum no final
-      url = url.replace(/[.,!?;]$/, '');
-      return url;
+async function replyMediaFailure(sock: WhatsappSocket, msg: WAMessage, group: GroupConfig, error: any): Promise<void> {
+  if (isMediaTooLargeError(error)) {
+    logger.warn(`⚠️ ${error.message}`);
+    try {
+      await sock.sendMessage(
+        msg.key.remoteJid!,
+        { text: `⚠️ ${error.message}. Envie o link do vídeo no lugar do arquivo.` },
+        { quoted: msg }
+      );
+    } catch (replyError: any) {
+      logger.error(`🔴 [WHATSAPP] Erro ao responder mídia grande demais: ${replyError.message}`);
+    }
+  } else {
+    logger.error(`🔴 [WHATSAPP] Falha ao baixar/gravar mídia: ${error.message}`);
+    const errorNotificationJid = getErrorNotificationJid(group);
+    if (errorNotificationJid) {
+      await sendErrorNotification(sock, errorNotificationJid, {
+        type: 'WHATSAPP',
+        operation: 'baixar mídia enviada',
+        message: error.message || error.toString()
+      });
     }
   }
 
-  return null;
+  await reactToMessage(sock, msg, '❌');
 }
 
-export async function handleMessagesUpsert({ messages, sock }: MessagesUpsert): Promise<void> {
+/**
+ * Vídeo ou imagem enviado direto no grupo: baixa, grava no armazenamento e segue como sugestão
+ * O sha256 do conteúdo faz o papel de videoId, então o mesmo arquivo reenviado cai na checagem de repetidos
+ * A checagem usa o fileSha256 da mensagem antes do download; repetido não é baixado nem gravado
+ */
+async function processMediaMessage(sock: WhatsappSocket, msg: WAMessage, group: GroupConfig, isCatchUp: boolean): Promise<SuggestionOutcome> {
+  const remoteJid = msg.key.remoteJid!;
+  const content = getMediaContent(msg);
+
+  const ctx: SuggestionContext = {
+    sock,
+    msg,
+    group,
+    text: content?.caption || '',
+    pushName: msg.pushName || 'Desconhecido',
+    senderJid: msg.key.participant || remoteJid,
+    sourceMessageId: getSourceMessageId(msg),
+    isCatchUp
+  };
+
+  if (content?.declaredSha256 && await replyIfDuplicate(ctx, { platform: 'upload', videoId: content.declaredSha256 }, ctx.sourceMessageId)) {
+    await reactWithOutcomes(sock, msg, ['duplicate']);
+    return 'duplicate';
+  }
+
+  let media;
   try {
-    logger.info(`🔥 handleMessagesUpsert chamado com ${messages.length} mensagem(ns)`);
-    
+    media = await downloadMessageMedia(sock, msg);
+    logger.info(`📥 ${media.kind === 'video' ? 'Vídeo' : 'Imagem'} baixado: ${(media.size / 1024).toFixed(0)} KB (${media.mimeType})`);
+  } catch (error: any) {
+    await replyMediaFailure(sock, msg, group, error);
+    return 'failed';
+  }
+
+  // Sem fileSha256 (ou diferente do conteúdo baixado): checa pelo hash real antes de gravar
+  if (media.sha256 !== content?.declaredSha256 && await replyIfDuplicate(ctx, { platform: 'upload', videoId: media.sha256 }, ctx.sourceMessageId)) {
+    await reactWithOutcomes(sock, msg, ['duplicate']);
+    return 'duplicate';
+  }
+
+  let stored;
+  try {
+    stored = await storeMedia(media);
+  } catch (error: any) {
+    await replyMediaFailure(sock, msg, group, error);
+    return 'failed';
+  }
+
+  // Imagens já ganham a thumbnail; vídeos recebem a do poster enviado pelo worker
+  let thumbnailRef: string | undefined;
+  if (media.kind === 'image') {
+    try {
+      thumbnailRef = await storeThumbnail(media.buffer);
+    } catch (thumbnailError: any) {
+      logger.warn(`⚠️ Não foi possível gerar a thumbnail da imagem: ${thumbnailError.message}`);
+    }
+  }
+
+  const video: ParsedVideoUrl = {
+    platform: 'upload',
+    videoId: media.sha256,
+    canonicalUrl: stored.url || stored.ref,
+    originalUrl: stored.ref
+  };
+
+  const outcome = await processVideoSuggestion(ctx, video, 0, {
+    mediaRef: stored.ref,
+    mediaKind: media.kind,
+    mediaMimeType: media.mimeType,
+    mediaSize: media.size,
+    mediaSha256: media.sha256,
+    thumbnailRef
+  });
+
+  await reactWithOutcomes(sock, msg, [outcome]);
+  return outcome;
+}
+
+// Quantas sugestões foram registradas (entram no resumo da recuperação)
+function countRegistered(outcomes: SuggestionOutcome[]): number {
+  return outcomes.filter(outcome => outcome === 'saved' || outcome === 'deferred').length;
+}
+
+/**
+ * Trata mensagens novas ('notify') e as recuperadas após ficar offline ('append' ou history sync)
+ * As recuperadas só passam se forem mais novas que a marca do grupo e dentro da janela máxima
+ */
+export async function handleMessagesUpsert({ messages, type, sock }: MessagesUpsert): Promise<void> {
+  try {
+    logger.info(`🔥 handleMessagesUpsert chamado com ${messages.length} mensagem(ns) (${type})`);
+
+    const isCatchUp = type !== 'notify';
+
     for (const msg of messages) {
       const remoteJid = msg.key.remoteJid;
+      incrementCounter(METRICS.messagesSeen, { type });
 
       logger.info(`📨 Mensagem recebida de: ${remoteJid}`);
-      logger.info(`🎯 TARGET_GROUP_ID: ${TARGET_GROUP_ID}`);
 
       if (!msg.message) {
         logger.info('⚠️ Mensagem sem conteúdo, ignorando');
         continue;
       }
 
-      const messageId = `${remoteJid}_${msg.key.id}`;
-      if (isDuplicateMessage(messageId)) {
+      // Verificar se é de um grupo registrado
+      const group = await getGroupConfig(remoteJid);
+      if (!group) {
+        logger.info(`🚫 Grupo não autorizado - ignorando: ${remoteJid}`);
         continue;
       }
 
-      // Verificar se é do grupo autorizado
-      if (!isAllowedGroup(remoteJid)) {
-        logger.info(`🚫 Grupo não autorizado - ignorando: ${remoteJid}`);
+      // Recuperação: compara com a marca do grupo fotografada quando a conexão abriu
+      if (isCatchUp && !shouldCatchUp(msg, await getCatchUpWatermark(group.jid))) {
         continue;
       }
 
-      logger.info(`✅ Mensagem do grupo autorizado`);
+      // Dedupe durável (só para grupos autorizados, para não gravar conversas alheias)
+      if (msg.key.id && await isDuplicateMessage(remoteJid!, msg.key.id)) {
+        continue;
+      }
+
+      await advanceWatermark(msg);
+
+      // Guarda a mensagem para o getMessage e para citá-la depois
+      await storeMessage(msg);
+
+      logger.info(`✅ Mensagem do grupo autorizado (tenant: ${group.tenantId})${isCatchUp ? ' - recuperada' : ''}`);
+
+      // Resposta a um menu de sugestão (botão ou número citando o menu)
+      try {
+        const selection = await parseMenuSelection(msg);
+        if (selection) {
+          await processMenuSelection(sock, msg, group, selection);
+          continue;
+        }
+      } catch (menuError: any) {
+        logger.error(`Erro ao processar resposta de menu: ${menuError.message}`);
+        continue;
+      }
 
       // Processar apenas mensagens de texto (conversation ou extendedTextMessage)
       if (msg.message.conversation || msg.message.extendedTextMessage) {
@@ -114,129 +470,59 @@ export async function handleMessagesUpsert({ messages, sock }: MessagesUpsert):
         
         logger.info(`💬 Texto recebido: ${text.substring(0, 100)}`);
 
-        // Verificar se é comando de status
-        const textLower = text.toLowerCase().trim();
-        if (textLower === 'status' || textLower === '/status') {
-          logger.info('📊 Comando de status detectado');
-          
-          try {
-            const statusMessage = await getSystemStatus();
-            await sock.sendMessage(remoteJid!, { text: statusMessage });
-            logger.success('✅ Status enviado via WhatsApp');
-          } catch (error) {
-            logger.error('Erro ao enviar status:', error);
-            await sock.sendMessage(remoteJid!, { 
-              text: 'Erro ao obter status do sistema. Verifique os logs para mais detalhes.' 
-            });
-          }
+        // Comandos antigos não são executados na recuperação (ex.: /purge de horas atrás)
+        if (isCatchUp && text.trim().startsWith('/')) {
+          logger.info('⏭️ Comando recebido enquanto offline - ignorado');
+          continue;
+        }
+
+        // Comandos do bot (/status, /help...)
+        const handledCommand = await dispatchCommand({
+          sock,
+          msg,
+          text,
+          group,
+          resolveRole: (senderJid, commandGroup) => resolveRole(senderJid, commandGroup, sock),
+          audit: recordCommandAudit
+        });
+        if (handledCommand) {
           continue;
         }
 
-        // Extrair URL da mensagem
-        const url = extractVideoUrl(text);
+        // Extrair todas as URLs de vídeo da mensagem (canônicas, sem rastreamento)
+        const videos = await extractVideoUrls(text);
         
-        if (!url) {
-          logger.info('Mensagem sem URL - ignorando');
+        if (videos.length === 0) {
+          logger.info('Mensagem sem URL de vídeo - ignorando');
           continue;
         }
 
-        logger.info(`🔗 URL extraída: ${url}`);
+        logger.info(`🔗 ${videos.length} URL(s) de vídeo na mensagem`);
 
         try {
-          // ✅ Garantir que messageId sempre existe
-          const messageId = msg.key.id && msg.key.id.trim() !== '' 
-            ? msg.key.id 
-            : `whatsapp_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-
-          if (!msg.key.id || msg.key.id.trim() === '') {
-            logger.warn(`⚠️ Mensagem sem key.id, gerando messageId: ${messageId}`);
-          }
-
-          // PASSO 1: Salvar no MongoDB (fonte da verdade - confiabilidade garantida)
-          const videoData = {
-            url: url,
-            texto: text,
-            sugeridoPor: pushName,
-            messageId: messageId,
-            chatId: remoteJid || '',
-            timestamp: Date.now(),
-            status: 'pending' as const
+          const sourceMessageId = getSourceMessageId(msg);
+
+          const ctx: SuggestionContext = {
+            sock,
+            msg,
+            group,
+            text,
+            pushName,
+            senderJid: msg.key.participant || remoteJid || '',
+            sourceMessageId,
+            isCatchUp
           };
 
-          let savedDoc;
-          try {
-            savedDoc = await saveVideoSuggestion(videoData);
-            logger.success(`✅ Salvo no MongoDB: ${savedDoc._id}`);
-          } catch (mongoError: any) {
-            // Erro específico do MongoDB
-            const errorMsg = mongoError.message || mongoError.toString();
-            logger.error(`🔴 [WHATSAPP → MONGODB] Falha ao salvar vídeo no banco de dados: ${errorMsg}`);
-            
-            // Reagir com ❌
-            try {
-              await sock.sendMessage(remoteJid!, { 
-                react: { text: '❌', key: msg.key } 
-              });
-            } catch (reactError) {
-              logger.error('🔴 [WHATSAPP] Erro ao reagir com ❌:', reactError);
-            }
-            
-            // Enviar notificação de erro no WhatsApp
-            if (ERROR_NOTIFICATION_JID) {
-              await sendErrorNotification(sock, ERROR_NOTIFICATION_JID, {
-                type: 'MONGODB',
-                operation: 'salvar vídeo sugerido',
-                message: errorMsg
-              });
-            }
-            
-            // Não continua o fluxo se falhou no MongoDB
-            continue;
-          }
-
-          // PASSO 2: Publicar na fila video-suggestions (event-driven)
-          try {
-            await publishVideoSuggestion({
-              url: savedDoc.url,
-              texto: savedDoc.texto,
-              sugeridoPor: savedDoc.sugeridoPor,
-              messageId: savedDoc.messageId // ✅ Incluir messageId para rastreamento
-            });
-            logger.success(`✅ Publicado na fila video-suggestions`);
-          } catch (rabbitError: any) {
-            // Erro específico do RabbitMQ
-            const errorMsg = rabbitError.message || rabbitError.toString();
-            logger.error(`🔴 [WHATSAPP → RABBITMQ] Falha ao publicar na fila: ${errorMsg}`);
-            
-            // Enviar notificação de erro no WhatsApp
-            if (ERROR_NOTIFICATION_JID) {
-              await sendErrorNotification(sock, ERROR_NOTIFICATION_JID, {
-                type: 'RABBITMQ',
-                operation: 'publicar vídeo na fila',
-                message: errorMsg
-              });
-            }
-            
-            // Continua mesmo com erro no RabbitMQ (já está salvo no MongoDB)
-            // O replay pode pegar depois
+          // Cada link vira uma sugestão própria ligada à mesma mensagem
+          const outcomes: SuggestionOutcome[] = [];
+          for (let i = 0; i < videos.length; i++) {
+            outcomes.push(await processVideoSuggestion(ctx, videos[i], i));
           }
 
-          // PASSO 3: Marcar como publicado no MongoDB
-          try {
-            await markAsPublished(savedDoc.messageId);
-          } catch (markError: any) {
-            // Não crítico, apenas loga
-            logger.warn(`⚠️ [MONGODB] Falha ao marcar como publicado: ${markError.message}`);
-          }
+          await reactWithOutcomes(sock, msg, outcomes);
 
-          // PASSO 4: Reagir com ✅ - sucesso
-          try {
-            await sock.sendMessage(remoteJid!, { 
-              react: { text: '✅', key: msg.key } 
-            });
-            logger.success(`✅ [WHATSAPP] Reação enviada com sucesso`);
-          } catch (reactError: any) {
-            logger.error(`🔴 [WHATSAPP] Erro ao reagir com ✅: ${reactError.message}`);
+          if (isCatchUp) {
+            recordCatchUpSuggestions(group.jid, countRegistered(outcomes));
           }
 
         } catch (error: any) {
@@ -245,26 +531,30 @@ export async function handleMessagesUpsert({ messages, sock }: MessagesUpsert):
           logger.error(`🔴 [WHATSAPP] Erro crítico ao processar mensagem: ${errorMsg}`);
           
           // Reagir com ❌ - falha
-          try {
-            await sock.sendMessage(remoteJid!, { 
-              react: { text: '❌', key: msg.key } 
-            });
-          } catch (reactError) {
-            logger.error('🔴 [WHATSAPP] Erro ao reagir com ❌:', reactError);
-          }
+          await reactToMessage(sock, msg, '❌');
         }
 
         continue;
       }
 
-      // Outros tipos de mensagem (vídeo, imagem, etc)
-      if (msg.message.videoMessage) {
-        logger.info(`🎥 Vídeo recebido - processamento futuro`);
-        continue;
-      }
+      // Vídeo ou imagem enviado direto (legenda vira o texto da sugestão)
+      const mediaContent = getMediaContent(msg);
+      if (mediaContent) {
+        if (!MEDIA_CONFIG.enabled) {
+          logger.info(`${mediaContent.kind === 'video' ? '🎥' : '🖼️'} Mídia recebida - envio direto desativado (MEDIA_UPLOADS)`);
+          continue;
+        }
 
-      if (msg.message.imageMessage) {
-        logger.info(`🖼️ Imagem recebida - processamento futuro`);
+        logger.info(`${mediaContent.kind === 'video' ? '🎥 Vídeo' : '🖼️ Imagem'} recebido - salvando como sugestão`);
+        try {
+          const outcome = await processMediaMessage(sock, msg, group, isCatchUp);
+          if (isCatchUp) {
+            recordCatchUpSuggestions(group.jid, countRegistered([outcome]));
+          }
+        } catch (error: any) {
+          logger.error(`🔴 [WHATSAPP] Erro crítico ao processar mídia: ${error.message || error}`);
+          await reactToMessage(sock, msg, '❌');
+        }
         continue;
       }
 
@@ -0,0 +1,59 @@
+import { MessagesReaction } from '../types';
+import { VIDEO_CONFIG } from '../config/video.config';
+import { setReactionVote } from '../services/mongodb.service';
+import { getGroupConfig } from '../services/group-registry.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('ReactionHandler');
+
+/**
+ * Reação vazia = removida; com voteEmojis configurado, só esses emojis contam
+ */
+export function isVoteReaction(text: string | null | undefined): boolean {
+  if (!text) {
+    return false;
+  }
+  const { voteEmojis } = VIDEO_CONFIG.voting;
+  return voteEmojis.length === 0 || voteEmojis.includes(text);
+}
+
+/**
+ * Reações nas mensagens de sugestão viram votos (um por participante, com desfazer)
+ */
+export async function handleMessagesReaction({ reactions }: MessagesReaction): Promise<void> {
+  if (!VIDEO_CONFIG.voting.enabled) {
+    return;
+  }
+
+  for (const { key, reaction } of reactions) {
+    try {
+      const chatId = key.remoteJid;
+      // Reações do próprio bot (status ⏳/🎬/✅/❌) não contam
+      if (!chatId || !key.id || reaction.key?.fromMe) {
+        continue;
+      }
+
+      const group = await getGroupConfig(chatId);
+      if (!group) {
+        continue;
+      }
+
+      const voterJid = reaction.key?.participant || reaction.key?.remoteJid;
+      if (!voterJid) {
+        continue;
+      }
+
+      const voted = isVoteReaction(reaction.text);
+      const suggestions = await setReactionVote(chatId, key.id, voterJid, voted);
+      if (suggestions.length === 0) {
+        continue;
+      }
+
+      for (const suggestion of suggestions) {
+        logger.info(`${voted ? '👍' : '↩️'} Voto ${voted ? 'registrado' : 'desfeito'} em ${suggestion.messageId} (${suggestion.votes || 0} voto(s), prioridade ${suggestion.priorityScore || 0})`);
+      }
+    } catch (error: any) {
+      logger.error(`Erro ao processar reação: ${error.message}`);
+    }
+  }
+}
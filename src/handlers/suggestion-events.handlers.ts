@@ -0,0 +1,95 @@
+import type { ConsumeMessage } from 'amqplib';
+import type { SuggestionLifecycleEvent } from '../types';
+import type { SuggestionStatus } from '../services/mongodb.service';
+import { RABBITMQ_CONFIG } from '../config/rabbitmq.config';
+import { registerConsumer } from '../services/rabbitMQ.service';
+import { transitionSuggestion, reactWithStatus } from '../services/suggestion-lifecycle.service';
+import { enqueueCompletionNotification } from '../services/notification.service';
+import { attachWorkerThumbnail } from '../services/thumbnail.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('SuggestionEvents');
+
+const EVENT_STATUS: Record<SuggestionLifecycleEvent['eventType'], SuggestionStatus> = {
+  'processing.started': 'processing',
+  'processing.completed': 'completed',
+  'processing.failed': 'failed',
+};
+
+/**
+ * Lê e valida o evento; retorna null se for inválido
+ */
+function parseEvent(msg: ConsumeMessage): SuggestionLifecycleEvent | null {
+  try {
+    const event = JSON.parse(msg.content.toString());
+    const eventType = event.eventType || msg.properties.type;
+
+    if (!(eventType in EVENT_STATUS)) {
+      logger.warn(`⚠️ Evento com eventType desconhecido: ${eventType}`);
+      return null;
+    }
+
+    const correlationId = event.correlationId || msg.properties.correlationId;
+    if (typeof correlationId !== 'string' || correlationId.trim() === '') {
+      logger.warn('⚠️ Evento sem correlationId - ignorado');
+      return null;
+    }
+
+    return { ...event, eventType, correlationId };
+  } catch (error) {
+    logger.warn('⚠️ Evento com JSON inválido - ignorado');
+    return null;
+  }
+}
+
+/**
+ * Aplica um evento de processamento vindo dos workers
+ * Eventos inválidos, órfãos ou fora de ordem são confirmados e descartados;
+ * erros de infraestrutura são lançados (mensagem vai para a DLQ)
+ */
+export async function handleSuggestionEvent(msg: ConsumeMessage): Promise<void> {
+  const event = parseEvent(msg);
+  if (!event) {
+    return;
+  }
+
+  const to = EVENT_STATUS[event.eventType];
+  const occurredAt = event.occurredAt && !isNaN(Date.parse(event.occurredAt))
+    ? new Date(event.occurredAt)
+    : new Date();
+
+  const result = await transitionSuggestion(event.correlationId, to, {
+    at: occurredAt,
+    reason: event.reason,
+    worker: event.worker,
+    output: event.output,
+  });
+
+  if (!result.ok) {
+    if (result.reason === 'not_found') {
+      logger.warn(`⚠️ Evento ${event.eventType} para sugestão inexistente: ${event.correlationId}`);
+    } else {
+      logger.warn(`⚠️ Transição inválida para ${event.correlationId}: ${result.current} → ${to} (ignorada)`);
+    }
+    return;
+  }
+
+  await reactWithStatus(result.suggestion);
+
+  // Grava a thumbnail do poster do worker e avisa quem sugeriu (respeitando o horário de silêncio do grupo)
+  if (to === 'completed') {
+    await attachWorkerThumbnail(result.suggestion);
+    await enqueueCompletionNotification(result.suggestion);
+  }
+}
+
+/**
+ * Inicia o consumo da fila de eventos dos workers
+ */
+export async function startSuggestionEventsConsumer(): Promise<void> {
+  await registerConsumer(
+    RABBITMQ_CONFIG.queues.VIDEO_SUGGESTION_EVENTS,
+    handleSuggestionEvent,
+    RABBITMQ_CONFIG.eventsPrefetch
+  );
+}
@@ -5,6 +5,8 @@ import type {
 import { Boom } from '@hapi/boom';
 import { DisconnectReason } from '@whiskeysockets/baileys';
 import { generateQRCode } from '../utils/whatsapp.utils';
+import { setLatestQr } from '../services/pairing.service';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
 
 import dotenv from 'dotenv';
 import { createLogger } from '../utils/logger.utils';
@@ -19,7 +21,11 @@ interface IWhatsAppHandlers {
 
 export function handleConnectionUpdate({ update, reconnectCallback }: IWhatsAppHandlers): void {
   if (update.qr) {
-    generateQRCode(update.qr);
+    // Fica disponível em /dashboard/pairing; o terminal continua como alternativa
+    setLatestQr(update.qr);
+    if (WHATSAPP_CONFIG.pairing.printQrInTerminal) {
+      generateQRCode(update.qr);
+    }
   }
 
   const { connection, lastDisconnect } = update;
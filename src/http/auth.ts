@@ -0,0 +1,123 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import { HTTP_CONFIG } from '../config/http.config';
+import { DASHBOARD_CONFIG } from '../config/dashboard.config';
+import { createHttpError, HttpContext } from './http.types';
+
+function tokensMatch(received: string, expected: string): boolean {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Exige Authorization: Bearer <API_TOKEN>
+ */
+export function requireApiToken(req: IncomingMessage): void {
+  if (!HTTP_CONFIG.apiToken) {
+    throw createHttpError(503, 'api_disabled', 'API desativada: defina API_TOKEN');
+  }
+
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match || !tokensMatch(match[1].trim(), HTTP_CONFIG.apiToken)) {
+    throw createHttpError(401, 'unauthorized', 'Token de acesso ausente ou inválido');
+  }
+}
+
+/**
+ * Envolve o handler da rota com a verificação do token
+ */
+export function withApiToken(handler: (ctx: HttpContext) => Promise<void>): (ctx: HttpContext) => Promise<void> {
+  return async (ctx) => {
+    requireApiToken(ctx.req);
+    await handler(ctx);
+  };
+}
+
+export type DashboardRole = 'admin' | 'viewer';
+
+/**
+ * Papel de quem informou o token no login do painel (API_TOKEN = admin, DASHBOARD_TOKEN = visualização)
+ */
+export function resolveDashboardRole(token: string): DashboardRole | null {
+  if (HTTP_CONFIG.apiToken && tokensMatch(token, HTTP_CONFIG.apiToken)) {
+    return 'admin';
+  }
+  if (DASHBOARD_CONFIG.viewerToken && tokensMatch(token, DASHBOARD_CONFIG.viewerToken)) {
+    return 'viewer';
+  }
+  return null;
+}
+
+function readCookie(req: IncomingMessage, name: string): string | undefined {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch (error) {
+        return undefined; // Cookie malformado vale como ausente
+      }
+    }
+  }
+  return undefined;
+}
+
+// Sessões do painel em memória: o cookie leva só um id aleatório, nunca o token (reiniciar o bot desloga todos)
+const dashboardSessions = new Map<string, { role: DashboardRole; expiresAt: number }>();
+
+function pruneExpiredSessions(now: number): void {
+  for (const [id, session] of dashboardSessions) {
+    if (session.expiresAt <= now) dashboardSessions.delete(id);
+  }
+}
+
+/**
+ * Abre uma sessão do painel para o papel validado no login e retorna o id do cookie
+ */
+export function createDashboardSession(role: DashboardRole): string {
+  const now = Date.now();
+  pruneExpiredSessions(now);
+
+  const id = randomBytes(32).toString('hex');
+  dashboardSessions.set(id, { role, expiresAt: now + DASHBOARD_CONFIG.sessionHours * 3600 * 1000 });
+  return id;
+}
+
+/**
+ * Encerra a sessão do cookie (logout); o id deixa de valer mesmo se o navegador guardar o cookie
+ */
+export function revokeDashboardSession(req: IncomingMessage): void {
+  const id = readCookie(req, DASHBOARD_CONFIG.cookieName);
+  if (id) {
+    dashboardSessions.delete(id);
+  }
+}
+
+/**
+ * Papel da sessão do painel (cookie gravado no login), ou null se não logado ou expirada
+ */
+export function getDashboardRole(req: IncomingMessage): DashboardRole | null {
+  const id = readCookie(req, DASHBOARD_CONFIG.cookieName);
+  const session = id ? dashboardSessions.get(id) : undefined;
+  if (!session) {
+    return null;
+  }
+
+  if (session.expiresAt <= Date.now()) {
+    dashboardSessions.delete(id!);
+    return null;
+  }
+  return session.role;
+}
+
+/**
+ * Cookie da sessão do painel (SameSite=Strict protege os formulários de ações)
+ * Secure por padrão; DASHBOARD_SECURE_COOKIE=false só para acesso local sem HTTPS
+ */
+export function buildSessionCookie(sessionId: string | null): string {
+  const maxAge = sessionId ? DASHBOARD_CONFIG.sessionHours * 3600 : 0;
+  const secure = DASHBOARD_CONFIG.secureCookie ? '; Secure' : '';
+  return `${DASHBOARD_CONFIG.cookieName}=${sessionId || ''}; Path=/dashboard; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${secure}`;
+}
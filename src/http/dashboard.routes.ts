@@ -0,0 +1,242 @@
+import type { HttpContext, Route } from './http.types';
+import { isHttpError } from './http.types';
+import { sendHtml, sendRedirect, readFormBody } from './responses';
+import { buildSessionCookie, createDashboardSession, getDashboardRole, resolveDashboardRole, revokeDashboardSession } from './auth';
+import { parseDateParam, parseEnumList, parseIntParam } from './validation';
+import { withTimeout } from './timeout';
+import { changeSuggestionStatus, deleteOrThrow, getSuggestionOr404, republishOrThrow } from './suggestion-actions';
+import { DashboardPage, STATUS_LABELS, renderDashboard, renderLogin } from './dashboard.view';
+import { DASHBOARD_CONFIG } from '../config/dashboard.config';
+import { HTTP_CONFIG } from '../config/http.config';
+import { SuggestionStatus, countSuggestionsPerDay, listSuggestions } from '../services/mongodb.service';
+import { getQueueStatus } from '../services/rabbitMQ.service';
+import { getActiveSocket, getConnectionStats } from '../services/whatsapp.service';
+import { getGroups } from '../services/group-registry.service';
+import { VALID_PLATFORMS } from '../utils/envelope.utils';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Dashboard');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Data (YYYY-MM-DD) no fuso do painel
+function toDayKey(date: Date): string {
+  return date.toLocaleDateString('en-CA', { timeZone: DASHBOARD_CONFIG.timezone });
+}
+
+/**
+ * Série dos últimos dias com zero onde não houve sugestão
+ */
+async function getPerDaySeries(): Promise<DashboardPage['perDay']> {
+  const now = Date.now();
+  const days = Array.from({ length: DASHBOARD_CONFIG.chartDays }, (_, i) =>
+    toDayKey(new Date(now - (DASHBOARD_CONFIG.chartDays - 1 - i) * DAY_MS))
+  );
+
+  const counts = await countSuggestionsPerDay(new Date(now - DASHBOARD_CONFIG.chartDays * DAY_MS), DASHBOARD_CONFIG.timezone);
+  const byDay = new Map(counts.map(item => [item.day, item.count]));
+  return days.map(day => ({ day, count: byDay.get(day) || 0 }));
+}
+
+// RabbitMQ fora do ar não pode travar o painel
+async function getQueueSummary(): Promise<DashboardPage['queue']> {
+  try {
+    const status = await withTimeout(getQueueStatus(), HTTP_CONFIG.readinessTimeoutMs);
+    return { messageCount: status.videoSuggestions.messageCount, consumerCount: status.videoSuggestions.consumerCount };
+  } catch (error: any) {
+    logger.warn(`⚠️ Fila indisponível para o painel: ${error.message}`);
+    return null;
+  }
+}
+
+function getWhatsappState(): DashboardPage['whatsapp'] {
+  if (getActiveSocket()) {
+    return 'connected';
+  }
+  return getConnectionStats().isConnecting ? 'reconnecting' : 'disconnected';
+}
+
+/**
+ * Volta para a página do painel de onde veio a ação (só caminhos internos)
+ */
+function buildReturnUrl(returnTo: string | null, message: { notice?: string; error?: string }): string {
+  const path = returnTo && returnTo.startsWith('/dashboard') && !returnTo.startsWith('//') ? returnTo : '/dashboard';
+  const url = new URL(path, 'http://localhost');
+  url.searchParams.delete('notice');
+  url.searchParams.delete('error');
+  if (message.notice) url.searchParams.set('notice', message.notice);
+  if (message.error) url.searchParams.set('error', message.error);
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * GET /dashboard
+ */
+export const dashboardRoute: Route = {
+  method: 'GET',
+  path: '/dashboard',
+  handler: async ({ req, res, query }) => {
+    const role = getDashboardRole(req);
+    if (!role) {
+      sendRedirect(res, '/dashboard/login');
+      return;
+    }
+
+    const errors: string[] = [];
+    const filters: DashboardPage['filters'] = {
+      status: query.get('status') || '',
+      platform: query.get('platform') || '',
+      suggester: query.get('suggester')?.trim() || '',
+      chat: query.get('chat') || '',
+      from: query.get('from') || '',
+      to: query.get('to') || '',
+    };
+
+    const page = parseIntParam(query.get('page'), 'Página', { min: 1, max: Number.MAX_SAFE_INTEGER, fallback: 1 }, errors);
+    const status = parseEnumList(filters.status, 'Status', Object.keys(STATUS_LABELS) as SuggestionStatus[], errors);
+    const platform = parseEnumList(filters.platform, 'Plataforma', VALID_PLATFORMS, errors);
+    const from = parseDateParam(filters.from, 'Data inicial', errors);
+    const to = parseDateParam(filters.to, 'Data final', errors);
+
+    // "Até" inclui o dia inteiro
+    const { items, total } = await listSuggestions({
+      status,
+      platform,
+      suggester: filters.suggester || undefined,
+      chatId: filters.chat || undefined,
+      from,
+      to: to ? new Date(to.getTime() + DAY_MS) : undefined,
+    }, page, DASHBOARD_CONFIG.pageSize);
+
+    const [perDay, queue, groups] = await Promise.all([getPerDaySeries(), getQueueSummary(), getGroups()]);
+
+    const error = query.get('error');
+    if (error) {
+      errors.unshift(error);
+    }
+
+    const returnUrl = new URL(req.url || '/dashboard', 'http://localhost');
+    returnUrl.searchParams.delete('notice');
+    returnUrl.searchParams.delete('error');
+
+    sendHtml(res, 200, renderDashboard({
+      role,
+      suggestions: items,
+      total,
+      page,
+      pageSize: DASHBOARD_CONFIG.pageSize,
+      filters,
+      groups: Array.from(groups.values()).map(group => ({ jid: group.jid, name: group.name || group.jid })),
+      perDay,
+      queue,
+      whatsapp: getWhatsappState(),
+      notice: query.get('notice') || undefined,
+      errors,
+      returnTo: `${returnUrl.pathname}${returnUrl.search}`,
+    }));
+  },
+};
+
+/**
+ * GET /dashboard/login
+ */
+export const dashboardLoginPageRoute: Route = {
+  method: 'GET',
+  path: '/dashboard/login',
+  handler: async ({ res }) => {
+    const configured = Boolean(DASHBOARD_CONFIG.viewerToken || HTTP_CONFIG.apiToken);
+    sendHtml(res, 200, renderLogin(configured ? undefined : 'Painel sem token configurado: defina DASHBOARD_TOKEN ou API_TOKEN'));
+  },
+};
+
+/**
+ * POST /dashboard/login
+ */
+export const dashboardLoginRoute: Route = {
+  method: 'POST',
+  path: '/dashboard/login',
+  handler: async ({ req, res }) => {
+    const token = (await readFormBody(req)).get('token')?.trim() || '';
+    const role = token ? resolveDashboardRole(token) : null;
+
+    if (!role) {
+      logger.warn('⚠️ Tentativa de login no painel com token inválido');
+      sendHtml(res, 401, renderLogin('Token inválido'));
+      return;
+    }
+
+    sendRedirect(res, '/dashboard', { 'Set-Cookie': buildSessionCookie(createDashboardSession(role)) });
+  },
+};
+
+/**
+ * POST /dashboard/logout
+ */
+export const dashboardLogoutRoute: Route = {
+  method: 'POST',
+  path: '/dashboard/logout',
+  handler: async ({ req, res }) => {
+    revokeDashboardSession(req);
+    sendRedirect(res, '/dashboard/login', { 'Set-Cookie': buildSessionCookie(null) });
+  },
+};
+
+/**
+ * Ação de admin vinda de um formulário do painel: executa e volta com aviso ou erro
+ */
+function adminAction(run: (id: string) => Promise<string>): Route['handler'] {
+  return async ({ req, res, params }: HttpContext) => {
+    const role = getDashboardRole(req);
+    if (!role) {
+      sendRedirect(res, '/dashboard/login');
+      return;
+    }
+
+    const returnTo = (await readFormBody(req)).get('returnTo');
+    if (role !== 'admin') {
+      sendRedirect(res, buildReturnUrl(returnTo, { error: 'Apenas administradores podem alterar sugestões' }));
+      return;
+    }
+
+    try {
+      const notice = await run(params.id);
+      sendRedirect(res, buildReturnUrl(returnTo, { notice }));
+    } catch (error: any) {
+      if (!isHttpError(error)) {
+        throw error;
+      }
+      sendRedirect(res, buildReturnUrl(returnTo, { error: error.message }));
+    }
+  };
+}
+
+export const dashboardRepublishRoute: Route = {
+  method: 'POST',
+  path: '/dashboard/suggestions/:id/republish',
+  handler: adminAction(async (id) => {
+    const suggestion = await getSuggestionOr404(id);
+    const published = await republishOrThrow(suggestion);
+    logger.info(`🔁 ${suggestion.messageId} republicada pelo painel`);
+    return published ? 'Sugestão publicada de novo na fila' : 'Sugestão recolocada no outbox (broker indisponível, o relay tenta de novo)';
+  }),
+};
+
+export const dashboardFailRoute: Route = {
+  method: 'POST',
+  path: '/dashboard/suggestions/:id/fail',
+  handler: adminAction(async (id) => {
+    const suggestion = await getSuggestionOr404(id);
+    await changeSuggestionStatus(suggestion, 'failed', 'marcada como falha pelo painel');
+    return 'Sugestão marcada como falha';
+  }),
+};
+
+export const dashboardDeleteRoute: Route = {
+  method: 'POST',
+  path: '/dashboard/suggestions/:id/delete',
+  handler: adminAction(async (id) => {
+    const suggestion = await getSuggestionOr404(id);
+    await deleteOrThrow(suggestion);
+    return 'Sugestão removida';
+  }),
+};
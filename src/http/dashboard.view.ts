@@ -0,0 +1,286 @@
+import type { SuggestionStatus, VideoSuggestion } from '../services/mongodb.service';
+import type { VideoPlatform } from '../types';
+import type { DashboardRole } from './auth';
+import { VIDEO_CONFIG } from '../config/video.config';
+import { DASHBOARD_CONFIG } from '../config/dashboard.config';
+
+/**
+ * Dados já resolvidos para montar o painel
+ */
+export interface DashboardPage {
+  role: DashboardRole;
+  suggestions: VideoSuggestion[];
+  total: number;
+  page: number;
+  pageSize: number;
+  filters: Record<'status' | 'platform' | 'suggester' | 'chat' | 'from' | 'to', string>;
+  groups: Array<{ jid: string; name: string }>;
+  perDay: Array<{ day: string; count: number }>; // Um item por dia, inclusive os zerados
+  queue: { messageCount: number; consumerCount: number } | null; // null = RabbitMQ indisponível
+  whatsapp: 'connected' | 'reconnecting' | 'disconnected';
+  notice?: string;
+  errors: string[];
+  returnTo: string; // Caminho atual (ações voltam para a mesma página/filtro)
+}
+
+const PLATFORM_ICONS: Record<VideoPlatform, { icon: string; label: string }> = {
+  youtube: { icon: '▶️', label: 'YouTube' },
+  tiktok: { icon: '🎵', label: 'TikTok' },
+  instagram: { icon: '📸', label: 'Instagram' },
+  facebook: { icon: '📘', label: 'Facebook' },
+  twitter: { icon: '🐦', label: 'X/Twitter' },
+  upload: { icon: '📎', label: 'Arquivo enviado no grupo' },
+  other: { icon: '🔗', label: 'Outro' },
+};
+
+export const STATUS_LABELS: Record<SuggestionStatus, string> = {
+  deferred: 'Adiada',
+  pending: 'Na fila',
+  processing: 'Processando',
+  completed: 'Pronta',
+  failed: 'Falhou',
+};
+
+const WHATSAPP_LABELS: Record<DashboardPage['whatsapp'], string> = {
+  connected: '🟢 Conectado',
+  reconnecting: '🟡 Reconectando',
+  disconnected: '🔴 Desconectado',
+};
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 0; background: #f5f6f8; color: #222; }
+  header { background: #1f6f5c; color: #fff; padding: 12px 24px; display: flex; justify-content: space-between; align-items: center; }
+  header h1 { font-size: 20px; margin: 0; }
+  header form { margin: 0; }
+  main { padding: 16px 24px; }
+  .cards { display: flex; gap: 12px; flex-wrap: wrap; margin-bottom: 16px; }
+  .card { background: #fff; border-radius: 8px; padding: 12px 16px; min-width: 160px; box-shadow: 0 1px 2px rgba(0,0,0,.08); }
+  .card small { color: #666; display: block; }
+  .card strong { font-size: 20px; }
+  .panel { background: #fff; border-radius: 8px; padding: 12px 16px; margin-bottom: 16px; box-shadow: 0 1px 2px rgba(0,0,0,.08); }
+  .filters { display: flex; gap: 8px; flex-wrap: wrap; align-items: end; }
+  .filters label { font-size: 12px; color: #555; display: flex; flex-direction: column; gap: 2px; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eee; vertical-align: middle; }
+  th { background: #fafafa; }
+  td.actions form { display: inline; }
+  .badge { padding: 2px 8px; border-radius: 10px; font-size: 12px; white-space: nowrap; }
+  .status-deferred { background: #eef; } .status-pending { background: #fff4d6; }
+  .status-processing { background: #e3f0ff; } .status-completed { background: #dff5e3; } .status-failed { background: #fde2e1; }
+  .notice { background: #dff5e3; padding: 8px 12px; border-radius: 6px; margin-bottom: 12px; }
+  .error { background: #fde2e1; padding: 8px 12px; border-radius: 6px; margin-bottom: 12px; }
+  .pager { display: flex; gap: 12px; margin-top: 12px; align-items: center; }
+  button { cursor: pointer; }
+  .icon { font-size: 18px; }
+`;
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Página HTML completa com o CSS do painel embutido
+ */
+export function renderLayout(title: string, body: string, head = ''): string {
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+${head}
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleString('pt-BR', { timeZone: DASHBOARD_CONFIG.timezone, dateStyle: 'short', timeStyle: 'short' });
+}
+
+function getVotes(suggestion: VideoSuggestion): number {
+  return suggestion.priorityScore ?? (suggestion.votes || 0) + (suggestion.upvotes || 0);
+}
+
+function renderOptions(options: Array<{ value: string; label: string }>, selected: string, emptyLabel: string): string {
+  return [`<option value="">${escapeHtml(emptyLabel)}</option>`]
+    .concat(options.map(option =>
+      `<option value="${escapeHtml(option.value)}"${option.value === selected ? ' selected' : ''}>${escapeHtml(option.label)}</option>`
+    ))
+    .join('');
+}
+
+/**
+ * Gráfico de barras em SVG inline (sem scripts nem assets externos)
+ */
+export function renderPerDayChart(perDay: DashboardPage['perDay']): string {
+  const width = 720;
+  const height = 170;
+  const chartHeight = 120;
+  const max = Math.max(1, ...perDay.map(item => item.count));
+  const slot = width / Math.max(1, perDay.length);
+  const barWidth = Math.max(4, slot * 0.6);
+
+  const bars = perDay.map((item, i) => {
+    const barHeight = Math.round((item.count / max) * chartHeight);
+    const x = i * slot + (slot - barWidth) / 2;
+    const y = 20 + chartHeight - barHeight;
+    const [, month, day] = item.day.split('-');
+    return `<g>
+      <title>${escapeHtml(`${day}/${month}: ${item.count} sugestão(ões)`)}</title>
+      <rect x="${x.toFixed(1)}" y="${y}" width="${barWidth.toFixed(1)}" height="${barHeight}" fill="#1f6f5c" rx="2"></rect>
+      <text x="${(x + barWidth / 2).toFixed(1)}" y="${y - 4}" font-size="11" text-anchor="middle">${item.count > 0 ? item.count : ''}</text>
+      <text x="${(x + barWidth / 2).toFixed(1)}" y="${height - 8}" font-size="11" text-anchor="middle" fill="#666">${day}/${month}</text>
+    </g>`;
+  });
+
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" height="${height}" role="img" aria-label="Sugestões por dia">
+    <line x1="0" y1="${20 + chartHeight}" x2="${width}" y2="${20 + chartHeight}" stroke="#ccc"></line>
+    ${bars.join('\n')}
+  </svg>`;
+}
+
+function renderActions(suggestion: VideoSuggestion, returnTo: string): string {
+  const id = escapeHtml(suggestion._id?.toString());
+  const back = `<input type="hidden" name="returnTo" value="${escapeHtml(returnTo)}">`;
+  const actions: string[] = [];
+
+  if (['deferred', 'pending', 'failed'].includes(suggestion.status)) {
+    actions.push(`<form method="post" action="/dashboard/suggestions/${id}/republish">${back}<button title="Publicar de novo na fila">🔁</button></form>`);
+  }
+  if (['deferred', 'pending', 'processing'].includes(suggestion.status)) {
+    actions.push(`<form method="post" action="/dashboard/suggestions/${id}/fail">${back}<button title="Marcar como falha">❌</button></form>`);
+  }
+  actions.push(`<form method="post" action="/dashboard/suggestions/${id}/delete" onsubmit="return confirm('Remover esta sugestão?')">${back}<button title="Remover">🗑️</button></form>`);
+
+  return actions.join(' ');
+}
+
+function renderRow(suggestion: VideoSuggestion, page: DashboardPage, groupNames: Map<string, string>): string {
+  const platform = PLATFORM_ICONS[suggestion.platform || 'other'] || PLATFORM_ICONS.other;
+  const link = /^https?:\/\//i.test(suggestion.url)
+    ? `<a href="${escapeHtml(suggestion.url)}" target="_blank" rel="noopener noreferrer">${escapeHtml(suggestion.url.length > 50 ? suggestion.url.slice(0, 50) + '…' : suggestion.url)}</a>`
+    : `<span title="${escapeHtml(suggestion.mediaMimeType)}">${escapeHtml(suggestion.mediaKind === 'image' ? 'Imagem enviada' : 'Vídeo enviado')}</span>`;
+
+  return `<tr>
+    <td><span class="icon" title="${escapeHtml(platform.label)}">${platform.icon}</span></td>
+    <td>${escapeHtml(suggestion.sugeridoPor)}</td>
+    <td>${escapeHtml(groupNames.get(suggestion.chatId) || suggestion.chatId)}</td>
+    <td><span class="badge status-${suggestion.status}" title="${escapeHtml(suggestion.failureReason || '')}">${VIDEO_CONFIG.statusReactions[suggestion.status]} ${STATUS_LABELS[suggestion.status]}</span></td>
+    <td>${getVotes(suggestion)}</td>
+    <td>${link}</td>
+    <td>${escapeHtml(formatDate(suggestion.createdAt))}</td>
+    ${page.role === 'admin' ? `<td class="actions">${renderActions(suggestion, page.returnTo)}</td>` : ''}
+  </tr>`;
+}
+
+function pageLink(page: DashboardPage, target: number): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(page.filters)) {
+    if (value) params.set(key, value);
+  }
+  params.set('page', String(target));
+  return `/dashboard?${params.toString()}`;
+}
+
+/**
+ * Página principal do painel
+ */
+export function renderDashboard(page: DashboardPage): string {
+  const groupNames = new Map(page.groups.map(group => [group.jid, group.name]));
+  const totalPages = Math.max(1, Math.ceil(page.total / page.pageSize));
+  const chartTotal = page.perDay.reduce((sum, item) => sum + item.count, 0);
+
+  const statusOptions = (Object.keys(STATUS_LABELS) as SuggestionStatus[]).map(status => ({ value: status, label: STATUS_LABELS[status] }));
+  const platformOptions = (Object.keys(PLATFORM_ICONS) as VideoPlatform[]).map(platform => ({
+    value: platform,
+    label: `${PLATFORM_ICONS[platform].icon} ${PLATFORM_ICONS[platform].label}`,
+  }));
+  const groupOptions = page.groups.map(group => ({ value: group.jid, label: group.name }));
+
+  const body = `
+<header>
+  <h1>🎬 Sugestões de vídeo da viagem</h1>
+  <nav>
+    ${page.role === 'admin' ? '<a href="/dashboard/pairing" style="color: #fff; margin-right: 12px">📲 Pareamento</a>' : ''}
+    <form method="post" action="/dashboard/logout" style="display: inline"><button>Sair</button></form>
+  </nav>
+</header>
+<main>
+  ${page.notice ? `<div class="notice">${escapeHtml(page.notice)}</div>` : ''}
+  ${page.errors.map(error => `<div class="error">${escapeHtml(error)}</div>`).join('')}
+
+  <div class="cards">
+    <div class="card"><small>WhatsApp</small><strong>${WHATSAPP_LABELS[page.whatsapp]}</strong></div>
+    <div class="card"><small>Fila aguardando processamento</small><strong>${page.queue ? page.queue.messageCount : 'indisponível'}</strong></div>
+    <div class="card"><small>Workers conectados</small><strong>${page.queue ? page.queue.consumerCount : '-'}</strong></div>
+    <div class="card"><small>Sugestões (filtro atual)</small><strong>${page.total}</strong></div>
+  </div>
+
+  <div class="panel">
+    <strong>Sugestões por dia</strong> <small>(últimos ${page.perDay.length} dias: ${chartTotal})</small>
+    ${renderPerDayChart(page.perDay)}
+  </div>
+
+  <div class="panel">
+    <form class="filters" method="get" action="/dashboard">
+      <label>Status<select name="status">${renderOptions(statusOptions, page.filters.status, 'Todos')}</select></label>
+      <label>Plataforma<select name="platform">${renderOptions(platformOptions, page.filters.platform, 'Todas')}</select></label>
+      <label>Grupo<select name="chat">${renderOptions(groupOptions, page.filters.chat, 'Todos')}</select></label>
+      <label>Sugerido por<input name="suggester" value="${escapeHtml(page.filters.suggester)}" placeholder="nome ou JID"></label>
+      <label>De<input type="date" name="from" value="${escapeHtml(page.filters.from)}"></label>
+      <label>Até<input type="date" name="to" value="${escapeHtml(page.filters.to)}"></label>
+      <button>Filtrar</button>
+      <a href="/dashboard">Limpar</a>
+    </form>
+  </div>
+
+  <div class="panel">
+    <table>
+      <thead><tr>
+        <th></th><th>Sugerido por</th><th>Grupo</th><th>Status</th><th>Votos</th><th>Link</th><th>Data</th>
+        ${page.role === 'admin' ? '<th>Ações</th>' : ''}
+      </tr></thead>
+      <tbody>
+        ${page.suggestions.length > 0
+          ? page.suggestions.map(suggestion => renderRow(suggestion, page, groupNames)).join('\n')
+          : `<tr><td colspan="8">Nenhuma sugestão encontrada</td></tr>`}
+      </tbody>
+    </table>
+    <div class="pager">
+      ${page.page > 1 ? `<a href="${escapeHtml(pageLink(page, page.page - 1))}">← Anterior</a>` : ''}
+      <span>Página ${page.page} de ${totalPages}</span>
+      ${page.page < totalPages ? `<a href="${escapeHtml(pageLink(page, page.page + 1))}">Próxima →</a>` : ''}
+    </div>
+  </div>
+</main>`;
+
+  return renderLayout('Sugestões de vídeo', body);
+}
+
+/**
+ * Tela de login (token do painel ou da API)
+ */
+export function renderLogin(error?: string): string {
+  const body = `
+<header><h1>🎬 Sugestões de vídeo da viagem</h1></header>
+<main>
+  <div class="panel" style="max-width: 360px">
+    ${error ? `<div class="error">${escapeHtml(error)}</div>` : ''}
+    <form method="post" action="/dashboard/login">
+      <p><label>Token de acesso<br><input type="password" name="token" autofocus required style="width: 100%"></label></p>
+      <button>Entrar</button>
+    </form>
+  </div>
+</main>`;
+
+  return renderLayout('Entrar - Sugestões de vídeo', body);
+}
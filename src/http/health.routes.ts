@@ -0,0 +1,87 @@
+import type { Route } from './http.types';
+import { sendJson, sendText } from './responses';
+import { withTimeout } from './timeout';
+import { HTTP_CONFIG } from '../config/http.config';
+import { RABBITMQ_CONFIG } from '../config/rabbitmq.config';
+import { getActiveSocket, getConnectionStats } from '../services/whatsapp.service';
+import { pingMongo } from '../services/mongodb.service';
+import { getQueueDepth, isConnected as isRabbitConnected } from '../services/rabbitMQ.service';
+import { getGroups } from '../services/group-registry.service';
+import { registerGauge, renderMetrics } from '../services/metrics.service';
+
+type CheckResult = { ok: boolean; error?: string };
+
+// Cada verificação tem prazo para o probe não ficar pendurado
+async function runCheck(check: () => Promise<unknown>): Promise<CheckResult> {
+  try {
+    await withTimeout(check(), HTTP_CONFIG.readinessTimeoutMs);
+    return { ok: true };
+  } catch (error: any) {
+    return { ok: false, error: error.message };
+  }
+}
+
+// Filas de todos os grupos registrados (sem repetir)
+async function getKnownQueues(): Promise<string[]> {
+  const queues = new Set<string>([RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS]);
+  for (const group of (await getGroups()).values()) {
+    queues.add(group.queue);
+  }
+  return Array.from(queues);
+}
+
+registerGauge('trip_video_queue_depth', 'Mensagens prontas na fila de sugestões', async () => {
+  if (!isRabbitConnected()) {
+    return [];
+  }
+  const queues = await getKnownQueues();
+  return Promise.all(queues.map(async queue => ({ labels: { queue }, value: await getQueueDepth(queue) })));
+});
+
+registerGauge('trip_video_whatsapp_connected', 'Conexão com o WhatsApp aberta (1) ou não (0)', async () => [
+  { labels: {}, value: getActiveSocket() ? 1 : 0 },
+]);
+
+/**
+ * Liveness: o processo está respondendo
+ */
+export const healthzRoute: Route = {
+  method: 'GET',
+  path: '/healthz',
+  handler: async ({ res }) => {
+    sendJson(res, 200, { status: 'ok', uptimeSeconds: Math.floor(process.uptime()) });
+  },
+};
+
+/**
+ * Readiness: WhatsApp aberto, MongoDB respondendo e canal do RabbitMQ funcionando
+ */
+export const readyzRoute: Route = {
+  method: 'GET',
+  path: '/readyz',
+  handler: async ({ res }) => {
+    const [whatsapp, mongodb, rabbitmq] = await Promise.all([
+      runCheck(async () => {
+        if (!getActiveSocket()) {
+          throw new Error(getConnectionStats().isConnecting ? 'reconnecting' : 'disconnected');
+        }
+      }),
+      runCheck(() => pingMongo()),
+      runCheck(() => getQueueDepth()),
+    ]);
+
+    const ready = whatsapp.ok && mongodb.ok && rabbitmq.ok;
+    sendJson(res, ready ? 200 : 503, { status: ready ? 'ready' : 'not_ready', checks: { whatsapp, mongodb, rabbitmq } });
+  },
+};
+
+/**
+ * Métricas no formato texto do Prometheus
+ */
+export const metricsRoute: Route = {
+  method: 'GET',
+  path: '/metrics',
+  handler: async ({ res }) => {
+    sendText(res, 200, await renderMetrics(), 'text/plain; version=0.0.4; charset=utf-8');
+  },
+};
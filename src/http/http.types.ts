@@ -0,0 +1,38 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+export type HttpMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+/**
+ * Contexto recebido pela rota
+ */
+export interface HttpContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: Record<string, string>; // Parâmetros do caminho (/api/suggestions/:id)
+  query: URLSearchParams;
+}
+
+/**
+ * Rota do servidor HTTP
+ */
+export interface Route {
+  method: HttpMethod;
+  path: string; // Ex.: '/api/suggestions/:id'
+  handler: (ctx: HttpContext) => Promise<void>;
+}
+
+/**
+ * Erro com status HTTP: o servidor responde { error: { code, message, details? } }
+ */
+export function createHttpError(status: number, code: string, message: string, details?: unknown): Error {
+  const error = new Error(message) as Error & { status: number; code: string; details?: unknown };
+  error.name = 'HttpError';
+  error.status = status;
+  error.code = code;
+  error.details = details;
+  return error;
+}
+
+export function isHttpError(error: any): error is Error & { status: number; code: string; details?: unknown } {
+  return error?.name === 'HttpError';
+}
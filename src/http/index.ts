@@ -0,0 +1,68 @@
+import { registerRoute, getRoutes } from './router';
+import { healthzRoute, readyzRoute, metricsRoute } from './health.routes';
+import {
+  listSuggestionsRoute,
+  getSuggestionRoute,
+  updateSuggestionRoute,
+  deleteSuggestionRoute,
+  republishSuggestionRoute,
+} from './suggestions.routes';
+import {
+  dashboardRoute,
+  dashboardLoginPageRoute,
+  dashboardLoginRoute,
+  dashboardLogoutRoute,
+  dashboardRepublishRoute,
+  dashboardFailRoute,
+  dashboardDeleteRoute,
+} from './dashboard.routes';
+import {
+  pairingPageRoute,
+  pairingQrSvgRoute,
+  pairingQrPngRoute,
+  pairingCodeRoute,
+  pairingLogoutRoute,
+  pairingClearRoute,
+} from './pairing.routes';
+import { DASHBOARD_CONFIG } from '../config/dashboard.config';
+
+/**
+ * Registra as rotas do servidor HTTP (idempotente)
+ */
+export function registerDefaultRoutes(): void {
+  if (getRoutes().length > 0) {
+    return;
+  }
+
+  registerRoute(healthzRoute);
+  registerRoute(readyzRoute);
+  registerRoute(metricsRoute);
+
+  // API de sugestões (Authorization: Bearer API_TOKEN)
+  registerRoute(listSuggestionsRoute);
+  registerRoute(getSuggestionRoute);
+  registerRoute(updateSuggestionRoute);
+  registerRoute(deleteSuggestionRoute);
+  registerRoute(republishSuggestionRoute);
+
+  // Painel web (login por token, sessão em cookie)
+  if (DASHBOARD_CONFIG.enabled) {
+    registerRoute(dashboardRoute);
+    registerRoute(dashboardLoginPageRoute);
+    registerRoute(dashboardLoginRoute);
+    registerRoute(dashboardLogoutRoute);
+    registerRoute(dashboardRepublishRoute);
+    registerRoute(dashboardFailRoute);
+    registerRoute(dashboardDeleteRoute);
+
+    // Pareamento do WhatsApp (só admin)
+    registerRoute(pairingPageRoute);
+    registerRoute(pairingQrSvgRoute);
+    registerRoute(pairingQrPngRoute);
+    registerRoute(pairingCodeRoute);
+    registerRoute(pairingLogoutRoute);
+    registerRoute(pairingClearRoute);
+  }
+}
+
+export { startHttpServer, stopHttpServer } from './server';
@@ -0,0 +1,152 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Route } from './http.types';
+import { createHttpError } from './http.types';
+import { sendHtml, sendRedirect, readFormBody } from './responses';
+import { getDashboardRole } from './auth';
+import { PairingPage, renderPairing } from './pairing.view';
+import {
+  getActiveSocket,
+  getConnectionHealth,
+  isPairingError,
+  requestPairingCode,
+  resetSession,
+} from '../services/whatsapp.service';
+import { getLatestQr, renderQrPng, renderQrSvg } from '../services/pairing.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Pairing');
+
+/**
+ * Só admin (login com API_TOKEN) pareia ou troca a sessão; responde o redirecionamento se não for
+ */
+function ensureAdmin(req: IncomingMessage, res: ServerResponse): boolean {
+  const role = getDashboardRole(req);
+  if (!role) {
+    sendRedirect(res, '/dashboard/login');
+    return false;
+  }
+  if (role !== 'admin') {
+    sendRedirect(res, `/dashboard?error=${encodeURIComponent('Apenas administradores podem acessar o pareamento')}`);
+    return false;
+  }
+  return true;
+}
+
+function buildPairingPage(extra: Partial<PairingPage> = {}): PairingPage {
+  const health = getConnectionHealth();
+  const qr = getLatestQr();
+  const connected = getActiveSocket() !== null;
+
+  return {
+    connected,
+    health: {
+      status: connected ? 'connected' : health.stats.isConnecting ? 'reconnecting' : 'disconnected',
+      uptime: connected ? health.uptime : 0,
+      lastConnection: health.lastConnection,
+      errorRate: health.errorRate,
+      reconnects: health.stats.totalReconnects,
+    },
+    qrReceivedAt: connected || !qr ? null : qr.receivedAt,
+    ...extra,
+  };
+}
+
+// O QR só existe enquanto o bot aguarda pareamento
+function getCurrentQrOr404(): string {
+  const qr = getLatestQr();
+  if (!qr || getActiveSocket()) {
+    throw createHttpError(404, 'no_qr', 'Nenhum QR code pendente');
+  }
+  return qr.code;
+}
+
+/**
+ * GET /dashboard/pairing
+ */
+export const pairingPageRoute: Route = {
+  method: 'GET',
+  path: '/dashboard/pairing',
+  handler: async ({ req, res, query }) => {
+    if (!ensureAdmin(req, res)) return;
+    sendHtml(res, 200, renderPairing(buildPairingPage({
+      notice: query.get('notice') || undefined,
+      error: query.get('error') || undefined,
+    })), { 'Cache-Control': 'no-store' });
+  },
+};
+
+export const pairingQrSvgRoute: Route = {
+  method: 'GET',
+  path: '/dashboard/pairing/qr.svg',
+  handler: async ({ req, res }) => {
+    if (!ensureAdmin(req, res)) return;
+    const svg = await renderQrSvg(getCurrentQrOr404());
+    res.writeHead(200, { 'Content-Type': 'image/svg+xml', 'Content-Length': Buffer.byteLength(svg), 'Cache-Control': 'no-store' });
+    res.end(svg);
+  },
+};
+
+export const pairingQrPngRoute: Route = {
+  method: 'GET',
+  path: '/dashboard/pairing/qr.png',
+  handler: async ({ req, res }) => {
+    if (!ensureAdmin(req, res)) return;
+    const png = await renderQrPng(getCurrentQrOr404());
+    res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': png.length, 'Cache-Control': 'no-store' });
+    res.end(png);
+  },
+};
+
+/**
+ * POST /dashboard/pairing/code (phoneNumber) → mostra o código na tela
+ */
+export const pairingCodeRoute: Route = {
+  method: 'POST',
+  path: '/dashboard/pairing/code',
+  handler: async ({ req, res }) => {
+    if (!ensureAdmin(req, res)) return;
+
+    const phoneNumber = ((await readFormBody(req)).get('phoneNumber') || '').replace(/\D/g, '');
+    if (phoneNumber.length < 10 || phoneNumber.length > 15) {
+      sendHtml(res, 400, renderPairing(buildPairingPage({ error: 'Informe o número com DDI e DDD, só dígitos (ex.: 5511999999999)' })));
+      return;
+    }
+
+    try {
+      const code = await requestPairingCode(phoneNumber);
+      sendHtml(res, 200, renderPairing(buildPairingPage({ pairingCode: { code, phoneNumber } })), { 'Cache-Control': 'no-store' });
+    } catch (error: any) {
+      if (!isPairingError(error)) {
+        logger.error(`❌ Falha ao gerar código de pareamento: ${error.message}`);
+      }
+      sendHtml(res, 409, renderPairing(buildPairingPage({ error: isPairingError(error) ? error.message : 'Não foi possível gerar o código; tente de novo' })));
+    }
+  },
+};
+
+function sessionAction(mode: 'logout' | 'clear', notice: string): Route['handler'] {
+  return async ({ req, res }) => {
+    if (!ensureAdmin(req, res)) return;
+
+    try {
+      await resetSession(mode);
+      sendRedirect(res, `/dashboard/pairing?notice=${encodeURIComponent(notice)}`);
+    } catch (error: any) {
+      logger.error(`❌ Falha ao reiniciar a sessão (${mode}): ${error.message}`);
+      const message = isPairingError(error) ? error.message : 'Falha ao reiniciar a sessão; veja os logs';
+      sendRedirect(res, `/dashboard/pairing?error=${encodeURIComponent(message)}`);
+    }
+  };
+}
+
+export const pairingLogoutRoute: Route = {
+  method: 'POST',
+  path: '/dashboard/pairing/logout',
+  handler: sessionAction('logout', 'Sessão encerrada; escaneie o novo QR'),
+};
+
+export const pairingClearRoute: Route = {
+  method: 'POST',
+  path: '/dashboard/pairing/clear',
+  handler: sessionAction('clear', 'Credenciais locais apagadas; escaneie o novo QR'),
+};
@@ -0,0 +1,105 @@
+import { escapeHtml, renderLayout } from './dashboard.view';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
+import { DASHBOARD_CONFIG } from '../config/dashboard.config';
+
+/**
+ * Dados da tela de pareamento
+ */
+export interface PairingPage {
+  connected: boolean;
+  health: { status: string; uptime: number; lastConnection: string | null; errorRate: string; reconnects: number };
+  qrReceivedAt: Date | null; // null = nenhum QR emitido (conectado ou ainda iniciando)
+  pairingCode?: { code: string; phoneNumber: string };
+  notice?: string;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  connected: '🟢 Conectado',
+  reconnecting: '🟡 Reconectando',
+  disconnected: '🔴 Desconectado',
+};
+
+function formatUptime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+}
+
+function renderQrPanel(page: PairingPage): string {
+  if (page.connected) {
+    return '<p>✅ O bot está conectado ao WhatsApp. Nenhum pareamento pendente.</p>';
+  }
+  if (!page.qrReceivedAt) {
+    return '<p>⏳ Aguardando o WhatsApp gerar o QR code...</p>';
+  }
+
+  const version = page.qrReceivedAt.getTime();
+  return `
+    <p>Abra o WhatsApp no celular → <em>Aparelhos conectados</em> → <em>Conectar aparelho</em> e escaneie:</p>
+    <img src="/dashboard/pairing/qr.svg?v=${version}" alt="QR code de pareamento" width="280" height="280" style="image-rendering: pixelated">
+    <p><small>Gerado às ${escapeHtml(page.qrReceivedAt.toLocaleTimeString('pt-BR', { timeZone: DASHBOARD_CONFIG.timezone }))}
+      · <a href="/dashboard/pairing/qr.png?v=${version}">PNG</a> · <a href="/dashboard/pairing/qr.svg?v=${version}">SVG</a></small></p>`;
+}
+
+function renderPairingCodePanel(page: PairingPage): string {
+  if (page.connected) {
+    return '';
+  }
+  if (page.pairingCode) {
+    return `<div class="panel">
+      <strong>Código de pareamento para ${escapeHtml(page.pairingCode.phoneNumber)}</strong>
+      <p style="font-size: 32px; letter-spacing: 4px; font-family: monospace">${escapeHtml(page.pairingCode.code)}</p>
+      <p><small>No celular: <em>Aparelhos conectados</em> → <em>Conectar aparelho</em> → <em>Conectar com número de telefone</em>.</small></p>
+      <a href="/dashboard/pairing">Voltar ao QR</a>
+    </div>`;
+  }
+
+  return `<div class="panel">
+    <strong>Parear com número de telefone</strong>
+    <form method="post" action="/dashboard/pairing/code" class="filters">
+      <label>Número com DDI (só dígitos)<input name="phoneNumber" inputmode="numeric" placeholder="5511999999999" required></label>
+      <button>Gerar código</button>
+    </form>
+  </div>`;
+}
+
+/**
+ * Tela de pareamento (QR atualizado automaticamente, código por telefone e troca de sessão)
+ */
+export function renderPairing(page: PairingPage): string {
+  // Com um código na tela a página não recarrega sozinha (o código sumiria)
+  const refresh = page.pairingCode ? '' : `<meta http-equiv="refresh" content="${WHATSAPP_CONFIG.pairing.pageRefreshSeconds}; url=/dashboard/pairing">`;
+
+  const body = `
+<header>
+  <h1>📲 Pareamento do WhatsApp</h1>
+  <nav><a href="/dashboard" style="color: #fff">← Voltar ao painel</a></nav>
+</header>
+<main>
+  ${page.notice ? `<div class="notice">${escapeHtml(page.notice)}</div>` : ''}
+  ${page.error ? `<div class="error">${escapeHtml(page.error)}</div>` : ''}
+
+  <div class="cards">
+    <div class="card"><small>Conexão</small><strong>${STATUS_LABELS[page.health.status] || escapeHtml(page.health.status)}</strong></div>
+    <div class="card"><small>Tempo conectado</small><strong>${formatUptime(page.health.uptime)}</strong></div>
+    <div class="card"><small>Última conexão</small><strong>${page.health.lastConnection
+      ? escapeHtml(new Date(page.health.lastConnection).toLocaleString('pt-BR', { timeZone: DASHBOARD_CONFIG.timezone }))
+      : '-'}</strong></div>
+    <div class="card"><small>Reconexões (taxa de erro)</small><strong>${page.health.reconnects} (${escapeHtml(page.health.errorRate)})</strong></div>
+  </div>
+
+  <div class="panel">${renderQrPanel(page)}</div>
+
+  ${renderPairingCodePanel(page)}
+
+  <div class="panel">
+    <strong>Sessão</strong>
+    <p><small>"Sair e parear de novo" desconecta o aparelho no WhatsApp. "Limpar sessão" só apaga as credenciais locais (use quando o logout remoto não for possível).</small></p>
+    <form method="post" action="/dashboard/pairing/logout" style="display: inline" onsubmit="return confirm('Desconectar o bot e gerar um novo QR?')"><button>🔌 Sair e parear de novo</button></form>
+    <form method="post" action="/dashboard/pairing/clear" style="display: inline" onsubmit="return confirm('Apagar as credenciais locais do WhatsApp?')"><button>🧹 Limpar sessão</button></form>
+  </div>
+</main>`;
+
+  return renderLayout('Pareamento do WhatsApp', body, refresh);
+}
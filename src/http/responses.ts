@@ -0,0 +1,89 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { HTTP_CONFIG } from '../config/http.config';
+import { createHttpError } from './http.types';
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
+
+export function sendText(res: ServerResponse, status: number, text: string, contentType = 'text/plain; charset=utf-8'): void {
+  res.writeHead(status, { 'Content-Type': contentType, 'Content-Length': Buffer.byteLength(text) });
+  res.end(text);
+}
+
+export function sendHtml(res: ServerResponse, status: number, html: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Content-Length': Buffer.byteLength(html), ...headers });
+  res.end(html);
+}
+
+/**
+ * Redireciona com 303 (depois de um POST de formulário o navegador faz GET)
+ */
+export function sendRedirect(res: ServerResponse, location: string, headers: Record<string, string> = {}): void {
+  res.writeHead(303, { Location: location, ...headers });
+  res.end();
+}
+
+export function sendNoContent(res: ServerResponse): void {
+  res.writeHead(204);
+  res.end();
+}
+
+/**
+ * Corpo de erro padrão de todas as rotas
+ */
+export function sendError(res: ServerResponse, status: number, code: string, message: string, details?: unknown): void {
+  sendJson(res, status, { error: { code, message, ...(details !== undefined ? { details } : {}) } });
+}
+
+/**
+ * Lê o corpo do pedido (limite de HTTP_CONFIG.maxBodyBytes)
+ */
+export async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > HTTP_CONFIG.maxBodyBytes) {
+      throw createHttpError(413, 'payload_too_large', 'Corpo do pedido grande demais');
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Lê o corpo de um formulário (application/x-www-form-urlencoded)
+ */
+export async function readFormBody(req: IncomingMessage): Promise<URLSearchParams> {
+  return new URLSearchParams(await readBody(req));
+}
+
+/**
+ * Lê o corpo como JSON (objeto); corpo vazio vira {}
+ */
+export async function readJsonBody(req: IncomingMessage): Promise<Record<string, any>> {
+  const raw = await readBody(req);
+  if (raw.trim() === '') {
+    return {};
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(raw);
+  } catch (error) {
+    throw createHttpError(400, 'invalid_json', 'Corpo do pedido não é um JSON válido');
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw createHttpError(400, 'invalid_body', 'O corpo do pedido deve ser um objeto JSON');
+  }
+  return body;
+}
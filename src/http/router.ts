@@ -0,0 +1,71 @@
+import type { HttpMethod, Route } from './http.types';
+
+interface CompiledRoute extends Route {
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+const routes: CompiledRoute[] = [];
+
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+/**
+ * Registra uma rota (método + caminho com :parâmetros)
+ */
+export function registerRoute(route: Route): void {
+  if (routes.some(r => r.method === route.method && r.path === route.path)) {
+    throw new Error(`Rota já registrada: ${route.method} ${route.path}`);
+  }
+  routes.push({ ...route, ...compilePath(route.path) });
+}
+
+/**
+ * Encontra a rota do pedido
+ * pathMatched indica que o caminho existe com outro método (405)
+ */
+export function matchRoute(method: string, pathname: string): { route?: Route; params: Record<string, string>; pathMatched: boolean } {
+  let pathMatched = false;
+
+  for (const route of routes) {
+    const match = route.pattern.exec(pathname);
+    if (!match) continue;
+
+    pathMatched = true;
+    if (route.method !== (method as HttpMethod)) continue;
+
+    const params: Record<string, string> = {};
+    route.paramNames.forEach((name, i) => {
+      params[name] = decodeURIComponent(match[i + 1]);
+    });
+    return { route, params, pathMatched };
+  }
+
+  return { params: {}, pathMatched };
+}
+
+/**
+ * Lista as rotas registradas (útil para testes)
+ */
+export function getRoutes(): Route[] {
+  return routes.map(({ method, path, handler }) => ({ method, path, handler }));
+}
+
+/**
+ * Remove todas as rotas (útil para testes)
+ */
+export function clearRoutes(): void {
+  routes.length = 0;
+}
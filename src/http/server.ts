@@ -0,0 +1,96 @@
+import http from 'http';
+import { HTTP_CONFIG } from '../config/http.config';
+import { matchRoute } from './router';
+import { createHttpError, isHttpError } from './http.types';
+import { sendError } from './responses';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('HttpServer');
+
+let server: http.Server | null = null;
+
+// Caminho e parâmetros do pedido; URL malformada vira 400 em vez de derrubar o processo
+function parseRequest(req: http.IncomingMessage): { url: URL; match: ReturnType<typeof matchRoute> } {
+  try {
+    const url = new URL(req.url || '/', 'http://localhost');
+    return { url, match: matchRoute(req.method || 'GET', url.pathname) };
+  } catch (error) {
+    throw createHttpError(400, 'bad_request', 'URL do pedido inválida');
+  }
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  let pathname = req.url || '/';
+
+  try {
+    const { url, match } = parseRequest(req);
+    const { route, params, pathMatched } = match;
+    pathname = url.pathname;
+
+    if (!route) {
+      if (pathMatched) {
+        sendError(res, 405, 'method_not_allowed', `Método ${req.method} não permitido em ${url.pathname}`);
+      } else {
+        sendError(res, 404, 'not_found', `Rota não encontrada: ${url.pathname}`);
+      }
+      return;
+    }
+
+    await route.handler({ req, res, params, query: url.searchParams });
+  } catch (error: any) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    if (isHttpError(error)) {
+      sendError(res, error.status, error.code, error.message, error.details);
+      return;
+    }
+
+    logger.error(`❌ Erro em ${req.method} ${pathname}: ${error.message}`);
+    sendError(res, 500, 'internal_error', 'Erro interno');
+  }
+}
+
+/**
+ * Sobe o servidor HTTP com as rotas registradas
+ */
+export function startHttpServer(): void {
+  if (server || !HTTP_CONFIG.enabled) {
+    return;
+  }
+
+  server = http.createServer((req, res) => {
+    // Nenhum erro de um pedido pode virar unhandled rejection e derrubar o bot
+    handleRequest(req, res).catch((error) => {
+      logger.error(`❌ Erro não tratado no servidor HTTP: ${error?.message || error}`);
+      if (!res.headersSent) {
+        res.statusCode = 500;
+      }
+      res.end();
+    });
+  });
+
+  server.on('error', (error) => {
+    logger.error(`❌ Erro no servidor HTTP: ${error.message}`);
+  });
+
+  server.listen(HTTP_CONFIG.port, HTTP_CONFIG.host, () => {
+    logger.success(`✅ Servidor HTTP ouvindo em ${HTTP_CONFIG.host}:${HTTP_CONFIG.port}`);
+  });
+}
+
+/**
+ * Para o servidor HTTP
+ */
+export async function stopHttpServer(): Promise<void> {
+  if (!server) {
+    return;
+  }
+
+  const current = server;
+  server = null;
+  await new Promise<void>(resolve => current.close(() => resolve()));
+  logger.info('Servidor HTTP parado');
+}
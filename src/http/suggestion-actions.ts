@@ -0,0 +1,82 @@
+import { createHttpError } from './http.types';
+import {
+  SuggestionStatus,
+  VideoSuggestion,
+  findById,
+  softDeleteSuggestion,
+} from '../services/mongodb.service';
+import { STATUS_TRANSITIONS, canTransition, transitionSuggestion, reactWithStatus } from '../services/suggestion-lifecycle.service';
+import { republishSuggestion } from '../services/outbox.service';
+
+// Republicar só faz sentido antes do worker concluir
+export const REPUBLISHABLE_STATUSES: SuggestionStatus[] = ['deferred', 'pending', 'failed'];
+
+/**
+ * Busca pelo _id; sugestões removidas contam como inexistentes
+ */
+export async function getSuggestionOr404(id: string): Promise<VideoSuggestion> {
+  if (!/^[0-9a-f]{24}$/i.test(id)) {
+    throw createHttpError(400, 'invalid_id', `ID inválido: ${id}`);
+  }
+
+  const suggestion = await findById(id);
+  if (!suggestion || suggestion.deletedAt) {
+    throw createHttpError(404, 'not_found', `Sugestão não encontrada: ${id}`);
+  }
+  return suggestion;
+}
+
+/**
+ * 409 se a transição não é permitida a partir do status atual
+ */
+export function assertCanTransition(suggestion: VideoSuggestion, to: SuggestionStatus): void {
+  if (to !== suggestion.status && !canTransition(suggestion.status, to)) {
+    throw createHttpError(409, 'invalid_transition', `Transição inválida: ${suggestion.status} → ${to}`, {
+      current: suggestion.status,
+      allowed: STATUS_TRANSITIONS[suggestion.status],
+    });
+  }
+}
+
+/**
+ * Troca o status (mesmas regras dos eventos dos workers) e reage na mensagem original
+ */
+export async function changeSuggestionStatus(suggestion: VideoSuggestion, to: SuggestionStatus, reason: string): Promise<VideoSuggestion> {
+  if (to === suggestion.status) {
+    return suggestion;
+  }
+  assertCanTransition(suggestion, to);
+
+  const result = await transitionSuggestion(suggestion.messageId, to, { reason });
+  if (!result.ok) {
+    throw createHttpError(409, 'invalid_transition', `Transição inválida: ${result.current} → ${to}`, {
+      current: result.current,
+    });
+  }
+
+  await reactWithStatus(result.suggestion);
+  return result.suggestion;
+}
+
+/**
+ * Republica pelo outbox; retorna se saiu na hora ou ficou para o relay
+ */
+export async function republishOrThrow(suggestion: VideoSuggestion): Promise<boolean> {
+  if (!REPUBLISHABLE_STATUSES.includes(suggestion.status)) {
+    throw createHttpError(409, 'invalid_state', `Sugestão com status ${suggestion.status} não pode ser republicada`, {
+      current: suggestion.status,
+      allowed: REPUBLISHABLE_STATUSES,
+    });
+  }
+  return republishSuggestion(suggestion);
+}
+
+/**
+ * Remoção lógica (404 se outra requisição removeu antes)
+ */
+export async function deleteOrThrow(suggestion: VideoSuggestion): Promise<void> {
+  const deleted = await softDeleteSuggestion(suggestion.messageId);
+  if (!deleted) {
+    throw createHttpError(404, 'not_found', `Sugestão não encontrada: ${suggestion._id}`);
+  }
+}
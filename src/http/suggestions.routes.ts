@@ -0,0 +1,177 @@
+import type { Route } from './http.types';
+import { sendJson, sendNoContent, readJsonBody } from './responses';
+import { withApiToken } from './auth';
+import { createValidationError, parseDateParam, parseEnumList, parseIntParam } from './validation';
+import { HTTP_CONFIG } from '../config/http.config';
+import {
+  assertCanTransition,
+  changeSuggestionStatus,
+  deleteOrThrow,
+  getSuggestionOr404,
+  republishOrThrow,
+} from './suggestion-actions';
+import {
+  SuggestionListFilter,
+  SuggestionStatus,
+  VideoSuggestion,
+  listSuggestions,
+  setSuggestionTags,
+} from '../services/mongodb.service';
+import { STATUS_TRANSITIONS } from '../services/suggestion-lifecycle.service';
+import { VALID_PLATFORMS } from '../utils/envelope.utils';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('SuggestionsApi');
+
+const STATUSES = Object.keys(STATUS_TRANSITIONS) as SuggestionStatus[];
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+
+function serializeSuggestion(suggestion: VideoSuggestion) {
+  const { _id, ...rest } = suggestion;
+  return { id: _id?.toString(), ...rest };
+}
+
+function parseTags(value: unknown, errors: string[]): string[] | undefined {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    errors.push('tags deve ser uma lista de textos');
+    return undefined;
+  }
+
+  const tags = Array.from(new Set(value.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean)));
+  if (tags.length > MAX_TAGS) {
+    errors.push(`tags aceita no máximo ${MAX_TAGS} itens`);
+  }
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    errors.push(`cada tag deve ter no máximo ${MAX_TAG_LENGTH} caracteres`);
+  }
+  return tags;
+}
+
+/**
+ * GET /api/suggestions?status=&platform=&suggester=&chat=&tag=&from=&to=&page=&pageSize=
+ */
+export const listSuggestionsRoute: Route = {
+  method: 'GET',
+  path: '/api/suggestions',
+  handler: withApiToken(async ({ res, query }) => {
+    const errors: string[] = [];
+    const { defaultPageSize, maxPageSize } = HTTP_CONFIG.pagination;
+
+    const page = parseIntParam(query.get('page'), 'page', { min: 1, max: Number.MAX_SAFE_INTEGER, fallback: 1 }, errors);
+    const pageSize = parseIntParam(query.get('pageSize'), 'pageSize', { min: 1, max: maxPageSize, fallback: defaultPageSize }, errors);
+    const filter: SuggestionListFilter = {
+      status: parseEnumList(query.get('status'), 'status', STATUSES, errors),
+      platform: parseEnumList(query.get('platform'), 'platform', VALID_PLATFORMS, errors),
+      suggester: query.get('suggester') || undefined,
+      chatId: query.get('chat') || undefined,
+      tag: query.get('tag')?.trim().toLowerCase() || undefined,
+      from: parseDateParam(query.get('from'), 'from', errors),
+      to: parseDateParam(query.get('to'), 'to', errors),
+    };
+
+    if (filter.from && filter.to && filter.from >= filter.to) {
+      errors.push('from deve ser anterior a to');
+    }
+    if (errors.length > 0) {
+      throw createValidationError(errors);
+    }
+
+    const { items, total } = await listSuggestions(filter, page, pageSize);
+    sendJson(res, 200, {
+      data: items.map(serializeSuggestion),
+      pagination: { page, pageSize, total, totalPages: Math.ceil(total / pageSize) },
+    });
+  }),
+};
+
+/**
+ * GET /api/suggestions/:id
+ */
+export const getSuggestionRoute: Route = {
+  method: 'GET',
+  path: '/api/suggestions/:id',
+  handler: withApiToken(async ({ res, params }) => {
+    const suggestion = await getSuggestionOr404(params.id);
+    sendJson(res, 200, { data: serializeSuggestion(suggestion) });
+  }),
+};
+
+/**
+ * PATCH /api/suggestions/:id  { status?, reason?, tags? }
+ * O status segue as mesmas transições válidas dos eventos dos workers
+ */
+export const updateSuggestionRoute: Route = {
+  method: 'PATCH',
+  path: '/api/suggestions/:id',
+  handler: withApiToken(async ({ req, res, params }) => {
+    const body = await readJsonBody(req);
+    const errors: string[] = [];
+
+    const unknownFields = Object.keys(body).filter(key => !['status', 'reason', 'tags'].includes(key));
+    if (unknownFields.length > 0) {
+      errors.push(`campos não suportados: ${unknownFields.join(', ')}`);
+    }
+    if (body.status === undefined && body.tags === undefined) {
+      errors.push('informe status e/ou tags');
+    }
+    if (body.status !== undefined && !STATUSES.includes(body.status)) {
+      errors.push(`status inválido (use ${STATUSES.join(', ')})`);
+    }
+    if (body.reason !== undefined && (typeof body.reason !== 'string' || body.reason.trim() === '')) {
+      errors.push('reason deve ser um texto não vazio');
+    }
+    const tags = body.tags !== undefined ? parseTags(body.tags, errors) : undefined;
+
+    if (errors.length > 0) {
+      throw createValidationError(errors);
+    }
+
+    let suggestion = await getSuggestionOr404(params.id);
+    const to = body.status as SuggestionStatus | undefined;
+
+    // Valida a transição antes de gravar qualquer coisa
+    if (to) {
+      assertCanTransition(suggestion, to);
+    }
+
+    if (tags) {
+      suggestion = (await setSuggestionTags(suggestion.messageId, tags)) || suggestion;
+    }
+
+    if (to) {
+      suggestion = await changeSuggestionStatus(suggestion, to, body.reason?.trim() || 'alterado pela API');
+    }
+
+    logger.info(`✏️ ${suggestion.messageId} atualizada pela API`);
+    sendJson(res, 200, { data: serializeSuggestion(suggestion) });
+  }),
+};
+
+/**
+ * DELETE /api/suggestions/:id (remoção lógica)
+ */
+export const deleteSuggestionRoute: Route = {
+  method: 'DELETE',
+  path: '/api/suggestions/:id',
+  handler: withApiToken(async ({ res, params }) => {
+    const suggestion = await getSuggestionOr404(params.id);
+    await deleteOrThrow(suggestion);
+    sendNoContent(res);
+  }),
+};
+
+/**
+ * POST /api/suggestions/:id/republish
+ * Mesmo caminho do handler ao vivo: outbox primeiro, publicação imediata se o broker responder
+ */
+export const republishSuggestionRoute: Route = {
+  method: 'POST',
+  path: '/api/suggestions/:id/republish',
+  handler: withApiToken(async ({ res, params }) => {
+    const suggestion = await getSuggestionOr404(params.id);
+    const published = await republishOrThrow(suggestion);
+    logger.info(`🔁 ${suggestion.messageId} republicada pela API (${published ? 'publicada' : 'aguardando relay'})`);
+    sendJson(res, 202, { data: { id: params.id, messageId: suggestion.messageId, published } });
+  }),
+};
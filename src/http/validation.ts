@@ -0,0 +1,67 @@
+import { createHttpError } from './http.types';
+
+/**
+ * Erro 400 padrão de validação (details lista cada campo inválido)
+ */
+export function createValidationError(errors: string[]): Error {
+  return createHttpError(400, 'validation_error', 'Pedido inválido', errors);
+}
+
+/**
+ * Inteiro dentro do intervalo; ausente usa o padrão
+ */
+export function parseIntParam(
+  value: string | null,
+  name: string,
+  options: { min: number; max: number; fallback: number },
+  errors: string[]
+): number {
+  if (value === null || value === '') {
+    return options.fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < options.min || parsed > options.max) {
+    errors.push(`${name} deve ser um inteiro entre ${options.min} e ${options.max}`);
+    return options.fallback;
+  }
+  return parsed;
+}
+
+/**
+ * Data ISO (ou só a data, YYYY-MM-DD)
+ */
+export function parseDateParam(value: string | null, name: string, errors: string[]): Date | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    errors.push(`${name} deve ser uma data ISO válida`);
+    return undefined;
+  }
+  return new Date(time);
+}
+
+/**
+ * Lista separada por vírgula com valores permitidos
+ */
+export function parseEnumList<T extends string>(
+  value: string | null,
+  name: string,
+  allowed: readonly T[],
+  errors: string[]
+): T[] | undefined {
+  if (value === null || value === '') {
+    return undefined;
+  }
+
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  const invalid = items.filter(item => !allowed.includes(item as T));
+  if (invalid.length > 0) {
+    errors.push(`${name} inválido: ${invalid.join(', ')} (use ${allowed.join(', ')})`);
+    return undefined;
+  }
+  return items as T[];
+}
@@ -1,15 +1,59 @@
 import { connectToWhatsApp } from './services/whatsapp.service';
+import { startOutboxRelay, stopOutboxRelay } from './services/outbox.service';
+import { startSuggestionEventsConsumer } from './handlers/suggestion-events.handlers';
+import { startNotificationFlusher, stopNotificationFlusher } from './services/notification.service';
+import { registerDefaultRoutes, startHttpServer, stopHttpServer } from './http';
+import { assertTransactionsSupported, isTransactionsUnsupportedError } from './services/mongodb.service';
 import { createLogger } from './utils/logger.utils';
 
 const logger = createLogger('Main');
 
+/**
+ * Sem transações no MongoDB o bot sobe gravando sem atomicidade, com aviso no log
+ * MongoDB fora do ar não impede a subida (as operações tentam reconectar depois)
+ */
+async function checkMongoTransactions(): Promise<void> {
+  try {
+    await assertTransactionsSupported();
+  } catch (error: any) {
+    if (isTransactionsUnsupportedError(error)) {
+      logger.warn('⚠️ ==========================================================');
+      logger.warn(`⚠️ ${error.message}`);
+      logger.warn('⚠️ Uma queda entre duas gravações pode deixar sugestão sem outbox (o replay recupera)');
+      logger.warn('⚠️ ==========================================================');
+      return;
+    }
+    logger.warn(`⚠️ Não foi possível verificar o suporte a transações do MongoDB: ${error.message}`);
+  }
+}
+
 async function main(): Promise<void> {
+  await checkMongoTransactions();
+
   try {
+    // Health checks e métricas ficam disponíveis antes mesmo do WhatsApp conectar
+    registerDefaultRoutes();
+    startHttpServer();
+
     logger.info('Iniciando conexão com WhatsApp...');
     await connectToWhatsApp();
 
-    process.on('SIGINT', () => {
+    // Relay do outbox: publica na fila o que ficou pendente no MongoDB
+    startOutboxRelay();
+
+    // Eventos dos workers atualizam o status das sugestões (⏳ → 🎬 → ✅/❌)
+    startSuggestionEventsConsumer().catch((error) => {
+      logger.error('❌ Erro ao iniciar consumidor de eventos:', error);
+    });
+
+    // Avisos de vídeo pronto (agrupados e respeitando o horário de silêncio)
+    startNotificationFlusher();
+
+    process.on('SIGINT', async () => {
       logger.info('\n👋 Saindo...');
+      stopOutboxRelay();
+      stopNotificationFlusher();
+      await stopHttpServer();
       process.exit(0);
     });
   } catch (error) {
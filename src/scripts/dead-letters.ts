@@ -0,0 +1,201 @@
+/**
+ * Script para inspecionar a fila de dead-letter (mensagens envenenadas)
+ *
+ * Uso:
+ * - npm run dead-letters                          (lista mensagens e histórico x-death)
+ * - npm run dead-letters -- --requeue <messageId> (devolve a mensagem à fila principal)
+ * - npm run dead-letters -- --discard <messageId> (remove a mensagem definitivamente)
+ */
+
+import 'dotenv/config';
+import { RABBITMQ_CONFIG } from '../config/rabbitmq.config';
+import { assertVideoSuggestionsTopology } from '../services/rabbitMQ.service';
+import { createLogger } from '../utils/logger.utils';
+import amqp from 'amqplib';
+import * as readline from 'readline';
+
+const logger = createLogger('DeadLetters');
+
+// Interface para entrada do usuário
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout
+});
+
+/**
+ * Pergunta ao usuário
+ */
+function question(prompt: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(prompt, (answer) => {
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Identificador da mensagem: propriedade AMQP messageId ou campo do payload
+ */
+function getMessageId(msg: amqp.GetMessage): string {
+  if (msg.properties.messageId) {
+    return String(msg.properties.messageId);
+  }
+
+  try {
+    const payload = JSON.parse(msg.content.toString());
+    return payload.messageId || payload.correlationId || '(sem messageId)';
+  } catch (error) {
+    return '(payload inválido)';
+  }
+}
+
+/**
+ * Formata o histórico x-death (uma linha por fila/motivo)
+ */
+function formatDeathHistory(msg: amqp.GetMessage): string[] {
+  const deaths = msg.properties.headers?.['x-death'];
+  if (!Array.isArray(deaths) || deaths.length === 0) {
+    return ['   (sem histórico x-death)'];
+  }
+
+  return deaths.map((death: any) => {
+    const rawTime = death.time?.value ?? death.time;
+    const time = typeof rawTime === 'number'
+      ? new Date(rawTime * 1000).toLocaleString('pt-BR')
+      : String(rawTime ?? '?');
+    return `   ☠️  ${death.reason} em ${death.queue} (${death.count}x) - ${time}`;
+  });
+}
+
+/**
+ * Lê todas as mensagens da DLQ sem confirmar (ficam "em mãos" até ack/nack)
+ */
+async function fetchDeadLetters(channel: amqp.ConfirmChannel): Promise<amqp.GetMessage[]> {
+  const messages: amqp.GetMessage[] = [];
+
+  while (true) {
+    const msg = await channel.get(RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS_DLQ, { noAck: false });
+    if (!msg) break;
+    messages.push(msg);
+  }
+
+  return messages;
+}
+
+/**
+ * Devolve a mensagem à fila principal e aguarda a confirmação do broker
+ */
+async function requeueMessage(channel: amqp.ConfirmChannel, msg: amqp.GetMessage): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    channel.sendToQueue(
+      RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS,
+      msg.content,
+      { ...msg.properties, persistent: true },
+      (err) => (err ? reject(err) : resolve())
+    );
+  });
+}
+
+/**
+ * Função principal
+ */
+async function main() {
+  let connection: amqp.ChannelModel | null = null;
+  let channel: amqp.ConfirmChannel | null = null;
+
+  try {
+    const args = process.argv.slice(2);
+    const requeueIndex = args.indexOf('--requeue');
+    const discardIndex = args.indexOf('--discard');
+    const action = requeueIndex >= 0 ? 'requeue' : discardIndex >= 0 ? 'discard' : 'list';
+    const targetId = action === 'requeue' ? args[requeueIndex + 1] : action === 'discard' ? args[discardIndex + 1] : undefined;
+
+    if (action !== 'list' && !targetId) {
+      console.log('\n❌ Uso incorreto!\n');
+      console.log('Exemplos de uso:');
+      console.log('  npm run dead-letters                            (lista mensagens)');
+      console.log('  npm run dead-letters -- --requeue <messageId>   (devolve à fila principal)');
+      console.log('  npm run dead-letters -- --discard <messageId>   (remove definitivamente)\n');
+      process.exitCode = 1;
+      return;
+    }
+
+    connection = await amqp.connect(RABBITMQ_CONFIG.url);
+    channel = await connection.createConfirmChannel();
+    await assertVideoSuggestionsTopology(channel);
+
+    const messages = await fetchDeadLetters(channel);
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`☠️  DEAD-LETTER: ${RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS_DLQ}`);
+    console.log('='.repeat(60));
+    console.log(`📨 Mensagens: ${messages.length}`);
+    console.log('='.repeat(60) + '\n');
+
+    if (action === 'list') {
+      messages.forEach((msg, index) => {
+        console.log(`${index + 1}. [${getMessageId(msg)}] ${msg.content.toString().substring(0, 80)}...`);
+        formatDeathHistory(msg).forEach(line => console.log(line));
+        console.log('');
+      });
+      return;
+    }
+
+    const target = messages.find(msg => getMessageId(msg) === targetId);
+    if (!target) {
+      console.log(`⚠️ Mensagem ${targetId} não encontrada na DLQ\n`);
+      return;
+    }
+
+    console.log(`🎯 Mensagem: ${target.content.toString().substring(0, 120)}`);
+    formatDeathHistory(target).forEach(line => console.log(line));
+    console.log('');
+
+    if (action === 'requeue') {
+      await requeueMessage(channel, target);
+      channel.ack(target);
+      logger.success(`✅ Mensagem ${targetId} devolvida para ${RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS}`);
+      console.log('✅ Mensagem devolvida à fila principal\n');
+      return;
+    }
+
+    const confirm = await question('Digite "DESCARTAR" para remover a mensagem definitivamente: ');
+    if (confirm.toUpperCase() !== 'DESCARTAR') {
+      console.log('\n❌ Operação cancelada pelo usuário.\n');
+      return;
+    }
+
+    channel.ack(target);
+    logger.success(`🗑️ Mensagem ${targetId} descartada`);
+    console.log('\n🗑️  Mensagem descartada\n');
+
+  } catch (error: any) {
+    logger.error('❌ Erro ao acessar dead-letter:', error.message);
+    process.exitCode = 1;
+  } finally {
+    rl.close();
+
+    try {
+      // Devolve à DLQ todas as mensagens lidas e não confirmadas
+      if (channel) {
+        channel.nackAll(true);
+        await channel.close();
+      }
+      if (connection) await connection.close();
+    } catch (error) {
+      // Ignora erros ao fechar
+    }
+
+    process.exit();
+  }
+}
+
+// Tratamento de CTRL+C
+process.on('SIGINT', () => {
+  console.log('\n\n❌ Operação cancelada pelo usuário (CTRL+C).\n');
+  rl.close();
+  process.exit(0);
+});
+
+// Executa
+main();
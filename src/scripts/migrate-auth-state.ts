@@ -0,0 +1,72 @@
+/**
+ * Script para importar a sessão do WhatsApp da pasta auth/ (useMultiFileAuthState) para o MongoDB
+ *
+ * Pare o bot antes de rodar (o Baileys continua gravando na pasta enquanto conectado).
+ * Depois defina AUTH_STATE_BACKEND=mongo no .env e suba o bot: ele reconecta sem novo QR.
+ *
+ * Uso:
+ * - npm run migrate-auth                          (pasta auth/, sessão AUTH_SESSION_ID ou 'default')
+ * - npm run migrate-auth -- --dir ./auth --session viagem
+ * - npm run migrate-auth -- --replace             (sobrescreve a sessão que já estiver no MongoDB)
+ */
+
+import 'dotenv/config';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
+import { closeConnection as closeMongoConnection } from '../services/mongodb.service';
+import { importAuthFolder } from '../services/auth-state.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('MigrateAuthState');
+
+interface MigrateOptions {
+  dir: string;
+  sessionId: string;
+  replace: boolean;
+}
+
+/**
+ * Função principal
+ */
+async function main() {
+  let exitCode = 0;
+
+  try {
+    const args = process.argv.slice(2);
+    const options: MigrateOptions = {
+      dir: WHATSAPP_CONFIG.authStatePath,
+      sessionId: WHATSAPP_CONFIG.authState.sessionId,
+      replace: false,
+    };
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+
+      if (arg === '--dir' && args[i + 1]) {
+        options.dir = args[++i];
+      } else if (arg === '--session' && args[i + 1]) {
+        options.sessionId = args[++i];
+      } else if (arg === '--replace') {
+        options.replace = true;
+      } else {
+        throw new Error(`Argumento desconhecido: ${arg}`);
+      }
+    }
+
+    logger.info(`🚀 Importando ${options.dir} para a sessão "${options.sessionId}"...`);
+    const count = await importAuthFolder(options.dir, options.sessionId, options.replace);
+    logger.success(`✅ ${count} registro(s) importado(s)`);
+
+    if (WHATSAPP_CONFIG.authState.backend !== 'mongo') {
+      logger.warn('⚠️ Defina AUTH_STATE_BACKEND=mongo no .env para o bot usar a sessão importada');
+    }
+  } catch (error: any) {
+    logger.error('❌ Erro fatal:', error.message);
+    exitCode = 1;
+  } finally {
+    await closeMongoConnection();
+    process.exit(exitCode);
+  }
+}
+
+// Executa
+main();
@@ -0,0 +1,149 @@
+/**
+ * Script para MIGRAR a fila video-suggestions para o modo 'arguments' de dead-letter
+ *
+ * O RabbitMQ não permite alterar argumentos de uma fila durável existente
+ * (assertQueue com argumentos diferentes fecha o canal com PRECONDITION_FAILED).
+ * Este script:
+ *   1. Copia as mensagens para uma fila temporária
+ *   2. Apaga e recria a fila com x-dead-letter-exchange
+ *   3. Devolve as mensagens e apaga a fila temporária
+ *
+ * Pare os consumidores e o bot antes de rodar. Depois defina
+ * RABBITMQ_DEAD_LETTER_MODE=arguments no .env.
+ *
+ * Alternativa sem migração: manter o modo 'policy' (padrão) e aplicar a policy
+ * descrita em src/config/rabbitmq.config.ts.
+ *
+ * Uso: npm run migrate-queue
+ */
+
+import 'dotenv/config';
+import { RABBITMQ_CONFIG, QUEUE_CONFIG } from '../config/rabbitmq.config';
+import { createLogger } from '../utils/logger.utils';
+import amqp from 'amqplib';
+import * as readline from 'readline';
+
+const logger = createLogger('MigrateQueue');
+
+const TEMP_QUEUE = `${RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS}.migration`;
+
+// Interface para entrada do usuário
+const rl = readline.createInterface({
+  input: process.stdin,
+  output: process.stdout
+});
+
+/**
+ * Pergunta ao usuário
+ */
+function question(prompt: string): Promise<string> {
+  return new Promise((resolve) => {
+    rl.question(prompt, (answer) => {
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Move todas as mensagens de uma fila para outra, confirmando cada publicação
+ */
+async function moveMessages(channel: amqp.ConfirmChannel, from: string, to: string): Promise<number> {
+  let moved = 0;
+
+  while (true) {
+    const msg = await channel.get(from, { noAck: false });
+    if (!msg) break;
+
+    await new Promise<void>((resolve, reject) => {
+      channel.sendToQueue(to, msg.content, { ...msg.properties, persistent: true }, (err) =>
+        err ? reject(err) : resolve()
+      );
+    });
+    channel.ack(msg);
+    moved++;
+  }
+
+  return moved;
+}
+
+/**
+ * Função principal
+ */
+async function main() {
+  let connection: amqp.ChannelModel | null = null;
+
+  try {
+    console.clear();
+    console.log('\n🔧 MIGRAR FILA PARA DEAD-LETTER VIA ARGUMENTOS\n');
+
+    connection = await amqp.connect(RABBITMQ_CONFIG.url);
+    const channel = await connection.createConfirmChannel();
+    const queue = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS;
+
+    const status = await channel.checkQueue(queue);
+
+    console.log('='.repeat(60));
+    console.log(`📋 Fila: ${queue}`);
+    console.log(`📨 Mensagens: ${status.messageCount}`);
+    console.log(`👥 Consumidores: ${status.consumerCount}`);
+    console.log('='.repeat(60) + '\n');
+
+    if (status.consumerCount > 0) {
+      console.log('❌ Há consumidores conectados. Pare-os (e o bot) antes de migrar.\n');
+      process.exitCode = 1;
+      return;
+    }
+
+    const confirm = await question('Digite "MIGRAR" para continuar ou "N" para cancelar: ');
+    if (confirm.toUpperCase() !== 'MIGRAR') {
+      console.log('\n❌ Operação cancelada pelo usuário.\n');
+      return;
+    }
+
+    // 1. Copia para fila temporária
+    await channel.assertQueue(TEMP_QUEUE, { durable: true });
+    const saved = await moveMessages(channel, queue, TEMP_QUEUE);
+    logger.info(`📦 ${saved} mensagem(ns) movida(s) para ${TEMP_QUEUE}`);
+
+    // 2. Recria a fila com o dead-letter exchange
+    await channel.deleteQueue(queue, { ifEmpty: true });
+    await channel.assertExchange(RABBITMQ_CONFIG.exchanges.DEAD_LETTER, 'direct', { durable: true });
+    await channel.assertQueue(queue, {
+      durable: QUEUE_CONFIG.durable,
+      arguments: {
+        'x-dead-letter-exchange': RABBITMQ_CONFIG.exchanges.DEAD_LETTER
+      }
+    });
+
+    // 3. Devolve as mensagens
+    const restored = await moveMessages(channel, TEMP_QUEUE, queue);
+    await channel.deleteQueue(TEMP_QUEUE, { ifEmpty: true });
+
+    console.log('\n' + '='.repeat(60));
+    console.log('✅ FILA MIGRADA COM SUCESSO!');
+    console.log('='.repeat(60));
+    console.log(`📨 Mensagens preservadas: ${restored}/${saved}`);
+    console.log('⚙️  Agora defina RABBITMQ_DEAD_LETTER_MODE=arguments no .env');
+    console.log('='.repeat(60) + '\n');
+
+    await channel.close();
+  } catch (error: any) {
+    console.log('\n');
+    logger.error('❌ Erro ao migrar fila:', error.message);
+    console.log(`\nSe a fila temporária ${TEMP_QUEUE} ainda existir, as mensagens estão nela.\n`);
+    process.exitCode = 1;
+  } finally {
+    rl.close();
+
+    try {
+      if (connection) await connection.close();
+    } catch (error) {
+      // Ignora erros ao fechar
+    }
+
+    process.exit();
+  }
+}
+
+// Executa
+main();
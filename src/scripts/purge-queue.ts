@@ -8,9 +8,9 @@
 
 import 'dotenv/config';
 import { getQueueStatus, closeConnection } from '../services/rabbitMQ.service';
+import { purgeSuggestionsQueue } from '../services/replay.service';
 import { RABBITMQ_CONFIG } from '../config/rabbitmq.config';
 import { createLogger } from '../utils/logger.utils';
-import amqp from 'amqplib';
 import * as readline from 'readline';
 
 const logger = createLogger('PurgeQueue');
@@ -32,28 +32,10 @@ function question(prompt: string): Promise<string> {
   });
 }
 
-/**
- * Conecta ao RabbitMQ e retorna o canal
- */
-async function getConnection() {
-  const connection = await amqp.connect(RABBITMQ_CONFIG.url);
-  const channel = await connection.createChannel();
-
-  // Garante que a fila existe
-  await channel.assertQueue(RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS, {
-    durable: true
-  });
-
-  return { connection, channel };
-}
-
 /**
  * Função principal
  */
 async function main() {
-  let connection: amqp.Connection | null = null;
-  let channel: amqp.Channel | null = null;
-
   try {
     console.clear();
     console.log('\n🗑️  LIMPAR FILA DO RABBITMQ\n');
@@ -108,20 +90,16 @@ async function main() {
     // Limpa a fila
     console.log('\n🗑️  Limpando fila...\n');
 
-    const { connection: conn, channel: ch } = await getConnection();
-    connection = conn as any;
-    channel = ch;
-
-    const purgeResult = await channel.purgeQueue(RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS);
+    const purgedCount = await purgeSuggestionsQueue();
 
     console.log('='.repeat(60));
     console.log('✅ FILA LIMPA COM SUCESSO!');
     console.log('='.repeat(60));
-    console.log(`🗑️  Mensagens removidas: ${purgeResult.messageCount}`);
+    console.log(`🗑️  Mensagens removidas: ${purgedCount}`);
     console.log(`📋 Fila: ${RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS}`);
     console.log('='.repeat(60) + '\n');
 
-    logger.success(`🎉 Fila limpa! ${purgeResult.messageCount} mensagens removidas.`);
+    logger.success(`🎉 Fila limpa! ${purgedCount} mensagens removidas.`);
 
   } catch (error: any) {
     console.log('\n');
@@ -134,13 +112,6 @@ async function main() {
     rl.close();
 
     // Fecha conexões
-    try {
-      if (channel) await channel.close();
-      if (connection) await (connection as any).connection?.close();
-    } catch (error) {
-      // Ignora erros ao fechar
-    }
-
     await closeConnection();
     process.exit(0);
   }
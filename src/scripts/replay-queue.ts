@@ -9,10 +9,10 @@
  */
 
 import 'dotenv/config';
-import { connectMongo, VideoSuggestion, closeConnection as closeMongoConnection } from '../services/mongodb.service';
-import { publishVideoSuggestion, closeConnection as closeRabbitConnection } from '../services/rabbitMQ.service';
+import { closeConnection as closeMongoConnection } from '../services/mongodb.service';
+import { closeConnection as closeRabbitConnection } from '../services/rabbitMQ.service';
+import { fetchVideosForReplay, replayVideos } from '../services/replay.service';
 import { createLogger } from '../utils/logger.utils';
-import { ObjectId } from 'mongodb';
 
 const logger = createLogger('ReplayQueue');
 
@@ -22,85 +22,6 @@ interface ReplayOptions {
   notPublished?: boolean;  // Apenas não publicados
 }
 
-/**
- * Busca vídeos do MongoDB baseado nos filtros
- */
-async function fetchVideos(options: ReplayOptions): Promise<VideoSuggestion[]> {
-  const db = await connectMongo();
-  const collection = db.collection<VideoSuggestion>('video_suggestions');
-
-  // Filtro base
-  const filter: any = {};
-
-  // Se não publicados, adiciona filtro
-  if (options.notPublished) {
-    filter.publishedToQueue = { $ne: true };
-  }
-
-  // Define o limite
-  let limit = 0;
-  if (options.count && options.count > 0) {
-    limit = options.count;
-  }
-
-  // Busca documentos
-  const query = collection.find(filter).sort({ createdAt: 1 });
-  
-  if (limit > 0) {
-    query.limit(limit);
-  }
-
-  const videos = await query.toArray();
-  return videos;
-}
-
-/**
- * Envia um vídeo para a fila
- */
-async function sendToQueue(video: VideoSuggestion): Promise<boolean> {
-  try {
-    // ✅ Garantir que messageId existe (gerar fallback se necessário)
-    const messageId = video.messageId && video.messageId.trim() !== '' 
-      ? video.messageId 
-      : `replay_${video._id}_${Date.now()}`;
-
-    if (!video.messageId || video.messageId.trim() === '') {
-      logger.warn(`⚠️ Vídeo sem messageId, gerando fallback: ${messageId}`);
-      
-      // Atualiza no MongoDB com o novo messageId
-      const db = await connectMongo();
-      await db.collection('video_suggestions').updateOne(
-        { _id: video._id },
-        { $set: { messageId: messageId } }
-      );
-    }
-
-    await publishVideoSuggestion({
-      url: video.url,
-      texto: video.texto,
-      sugeridoPor: video.sugeridoPor,
-      messageId: messageId
-    });
-
-    // Marca como publicado
-    const db = await connectMongo();
-    await db.collection('video_suggestions').updateOne(
-      { _id: video._id },
-      {
-        $set: {
-          publishedToQueue: true,
-          publishedAt: new Date()
-        }
-      }
-    );
-
-    return true;
-  } catch (error: any) {
-    logger.error(`Erro ao enviar vídeo ${video._id}: ${error.message}`);
-    return false;
-  }
-}
-
 /**
  * Função principal
  */
@@ -143,7 +64,7 @@ async function main() {
 
     // Busca vídeos
     logger.info('📋 Buscando vídeos no MongoDB...');
-    const videos = await fetchVideos(options);
+    const videos = await fetchVideosForReplay({ limit: options.count, notPublished: options.notPublished });
 
     if (videos.length === 0) {
       logger.warn('⚠️ Nenhum vídeo encontrado com os filtros especificados');
@@ -169,37 +90,24 @@ async function main() {
     // Envia para a fila
     logger.info('📤 Enviando vídeos para a fila...\n');
     
-    let successCount = 0;
-    let failCount = 0;
-
-    for (let i = 0; i < videos.length; i++) {
-      const video = videos[i];
-      const index = i + 1;
-      
-      logger.info(`[${index}/${videos.length}] Enviando: ${video.url.substring(0, 50)}...`);
-      
-      const success = await sendToQueue(video);
-      
-      if (success) {
-        successCount++;
-        logger.success(`✅ [${index}/${videos.length}] Enviado com sucesso`);
-      } else {
-        failCount++;
-        logger.error(`❌ [${index}/${videos.length}] Falha ao enviar`);
-      }
-      
-      // Pequena pausa entre envios
-      if (i < videos.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
+    const result = await replayVideos(videos, {
+      delayMs: 500,
+      onProgress: (i, video, success) => {
+        const index = i + 1;
+        if (success) {
+          logger.success(`✅ [${index}/${videos.length}] Enviado com sucesso: ${video.url.substring(0, 50)}...`);
+        } else {
+          logger.error(`❌ [${index}/${videos.length}] Falha ao enviar: ${video.url.substring(0, 50)}...`);
+        }
       }
-    }
+    });
 
     // Resultado final
     console.log('\n' + '='.repeat(60));
     console.log('📊 RESULTADO FINAL');
     console.log('='.repeat(60));
-    console.log(`✅ Sucesso: ${successCount}`);
-    console.log(`❌ Falhas: ${failCount}`);
+    console.log(`✅ Sucesso: ${result.sent}`);
+    console.log(`❌ Falhas: ${result.failed}`);
     console.log(`📝 Total: ${videos.length}`);
     console.log('='.repeat(60) + '\n');
 
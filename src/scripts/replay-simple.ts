@@ -7,8 +7,9 @@
  */
 
 import 'dotenv/config';
-import { connectMongo, VideoSuggestion, closeConnection as closeMongoConnection } from '../services/mongodb.service';
-import { publishVideoSuggestion, closeConnection as closeRabbitConnection } from '../services/rabbitMQ.service';
+import { closeConnection as closeMongoConnection } from '../services/mongodb.service';
+import { closeConnection as closeRabbitConnection } from '../services/rabbitMQ.service';
+import { fetchVideosForReplay, replayVideos, getSuggestionStats } from '../services/replay.service';
 import { createLogger } from '../utils/logger.utils';
 import * as readline from 'readline';
 
@@ -31,94 +32,21 @@ function question(prompt: string): Promise<string> {
   });
 }
 
-/**
- * Busca vídeos do MongoDB
- */
-async function fetchVideos(limit?: number, onlyNotPublished: boolean = false): Promise<VideoSuggestion[]> {
-  const db = await connectMongo();
-  const collection = db.collection<VideoSuggestion>('video_suggestions');
-
-  const filter: any = {};
-  if (onlyNotPublished) {
-    filter.publishedToQueue = { $ne: true };
-  }
-
-  const query = collection.find(filter).sort({ createdAt: 1 });
-  
-  if (limit && limit > 0) {
-    query.limit(limit);
-  }
-
-  return await query.toArray();
-}
-
 /**
  * Mostra estatísticas dos vídeos
  */
 async function showStats(): Promise<void> {
-  const db = await connectMongo();
-  const collection = db.collection<VideoSuggestion>('video_suggestions');
-
-  const total = await collection.countDocuments();
-  const published = await collection.countDocuments({ publishedToQueue: true });
-  const notPublished = total - published;
+  const stats = await getSuggestionStats();
 
   console.log('\n' + '='.repeat(60));
   console.log('📊 ESTATÍSTICAS DOS VÍDEOS');
   console.log('='.repeat(60));
-  console.log(`📹 Total de vídeos: ${total}`);
-  console.log(`✅ Já publicados: ${published}`);
-  console.log(`○  Não publicados: ${notPublished}`);
+  console.log(`📹 Total de vídeos: ${stats.total}`);
+  console.log(`✅ Já publicados: ${stats.published}`);
+  console.log(`○  Não publicados: ${stats.notPublished}`);
   console.log('='.repeat(60) + '\n');
 }
 
-/**
- * Envia vídeo para a fila
- */
-async function sendToQueue(video: VideoSuggestion): Promise<boolean> {
-  try {
-    // ✅ Garantir que messageId existe (gerar fallback se necessário)
-    const messageId = video.messageId && video.messageId.trim() !== '' 
-      ? video.messageId 
-      : `replay_${video._id}_${Date.now()}`;
-
-    if (!video.messageId || video.messageId.trim() === '') {
-      logger.warn(`⚠️ Vídeo sem messageId, gerando fallback: ${messageId}`);
-      
-      // Atualiza no MongoDB com o novo messageId
-      const db = await connectMongo();
-      await db.collection('video_suggestions').updateOne(
-        { _id: video._id },
-        { $set: { messageId: messageId } }
-      );
-    }
-
-    await publishVideoSuggestion({
-      url: video.url,
-      texto: video.texto,
-      sugeridoPor: video.sugeridoPor,
-      messageId: messageId
-    });
-
-    // Marca como publicado
-    const db = await connectMongo();
-    await db.collection('video_suggestions').updateOne(
-      { _id: video._id },
-      {
-        $set: {
-          publishedToQueue: true,
-          publishedAt: new Date()
-        }
-      }
-    );
-
-    return true;
-  } catch (error: any) {
-    logger.error(`Erro ao enviar: ${error.message}`);
-    return false;
-  }
-}
-
 /**
  * Menu interativo
  */
@@ -181,7 +109,7 @@ async function interactiveMenu() {
 
   // Busca vídeos
   console.log('\n📋 Buscando vídeos...\n');
-  const videos = await fetchVideos(count, onlyNotPublished);
+  const videos = await fetchVideosForReplay({ limit: count, notPublished: onlyNotPublished });
 
   if (videos.length === 0) {
     console.log('⚠️ Nenhum vídeo encontrado!\n');
@@ -209,37 +137,19 @@ async function interactiveMenu() {
   // Envia para a fila
   console.log('\n📤 Enviando vídeos...\n');
   
-  let successCount = 0;
-  let failCount = 0;
-
-  for (let i = 0; i < videos.length; i++) {
-    const video = videos[i];
-    const index = i + 1;
-    
-    process.stdout.write(`[${index}/${videos.length}] Enviando... `);
-    
-    const success = await sendToQueue(video);
-    
-    if (success) {
-      successCount++;
-      console.log('✅');
-    } else {
-      failCount++;
-      console.log('❌');
+  const result = await replayVideos(videos, {
+    delayMs: 300,
+    onProgress: (i, _video, success) => {
+      console.log(`[${i + 1}/${videos.length}] Enviando... ${success ? '✅' : '❌'}`);
     }
-    
-    // Pequena pausa
-    if (i < videos.length - 1) {
-      await new Promise(resolve => setTimeout(resolve, 300));
-    }
-  }
+  });
 
   // Resultado
   console.log('\n' + '='.repeat(60));
   console.log('📊 RESULTADO');
   console.log('='.repeat(60));
-  console.log(`✅ Sucesso: ${successCount}`);
-  console.log(`❌ Falhas: ${failCount}`);
+  console.log(`✅ Sucesso: ${result.sent}`);
+  console.log(`❌ Falhas: ${result.failed}`);
   console.log(`📝 Total: ${videos.length}`);
   console.log('='.repeat(60) + '\n');
 
@@ -0,0 +1,36 @@
+import { connectMongo } from './mongodb.service';
+import { createLogger } from '../utils/logger.utils';
+import type { CommandRole } from '../commands/command.types';
+
+const logger = createLogger('Audit');
+
+/**
+ * Registro de execução de comando privilegiado
+ */
+export interface CommandAuditEntry {
+  command: string;
+  args: string[];
+  senderJid: string;
+  senderName: string;
+  chatId: string;
+  tenantId: string;
+  role: CommandRole;
+  requiredPermission: CommandRole;
+  outcome: 'denied' | 'success' | 'usage_error' | 'error';
+  error?: string;
+  createdAt: Date;
+}
+
+/**
+ * Grava a execução na coleção command_audit
+ * Falhas são apenas logadas para não bloquear o comando
+ */
+export async function recordCommandAudit(entry: CommandAuditEntry): Promise<void> {
+  try {
+    const db = await connectMongo();
+    await db.collection<CommandAuditEntry>('command_audit').insertOne(entry);
+    logger.info(`📝 Auditoria: /${entry.command} por ${entry.senderJid} (${entry.outcome})`);
+  } catch (error: any) {
+    logger.error(`Erro ao gravar auditoria de /${entry.command}: ${error.message}`);
+  }
+}
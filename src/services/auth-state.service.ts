@@ -0,0 +1,248 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AnyBulkWriteOperation } from 'mongodb';
+import {
+  AuthenticationCreds,
+  AuthenticationState,
+  BufferJSON,
+  SignalKeyStore,
+  initAuthCreds,
+  proto,
+  useMultiFileAuthState,
+} from '@whiskeysockets/baileys';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
+import { connectMongo, withTransaction } from './mongodb.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('AuthState');
+
+const AUTH_COLLECTION = 'whatsapp_auth';
+const CREDS_KEY = 'creds';
+
+/**
+ * Credencial ou chave Signal da sessão (coleção whatsapp_auth)
+ * value é o mesmo JSON (BufferJSON) que o backend de arquivos grava em <key>.json
+ */
+interface AuthStateDocument {
+  _id: string; // sessionId/key
+  sessionId: string;
+  key: string;
+  value: string;
+  updatedAt: Date;
+}
+
+// Chaves já lidas/gravadas (null = não existe no banco), em ordem de uso: a primeira é a menos recente
+const keyCache = new Map<string, any>();
+
+function cacheKey(docId: string, value: any): void {
+  keyCache.delete(docId);
+  keyCache.set(docId, value);
+  while (keyCache.size > WHATSAPP_CONFIG.authState.keyCacheMaxEntries) {
+    keyCache.delete(keyCache.keys().next().value!);
+  }
+}
+
+// Gravações em ordem: um set de chaves não pode ultrapassar o anterior
+let writeChain: Promise<unknown> = Promise.resolve();
+
+function enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+  const run = writeChain.then(write);
+  writeChain = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Mesmo nome que o useMultiFileAuthState usa no arquivo (sem '/' e ':')
+ * Mantém os ids iguais entre os dois backends e na migração
+ */
+export function toAuthKey(name: string): string {
+  return name.replace(/\//g, '__').replace(/:/g, '-');
+}
+
+function getDocumentId(sessionId: string, key: string): string {
+  return `${sessionId}/${key}`;
+}
+
+// Sempre pela conexão atual (o client é recriado se o MongoDB cair)
+async function getAuthCollection() {
+  const db = await connectMongo();
+  return db.collection<AuthStateDocument>(AUTH_COLLECTION);
+}
+
+function parseValue(key: string, raw: string): any {
+  const value = JSON.parse(raw, BufferJSON.reviver);
+  return key.startsWith('app-state-sync-key-') && value
+    ? proto.Message.AppStateSyncKeyData.fromObject(value)
+    : value;
+}
+
+/**
+ * Auth state do Baileys guardado no MongoDB (mesma interface do useMultiFileAuthState)
+ * Cada set de chaves é gravado numa transação: ou entram todas, ou nenhuma
+ */
+export async function useMongoAuthState(sessionId: string): Promise<{ state: AuthenticationState; saveCreds: () => Promise<void> }> {
+  const credsDoc = await (await getAuthCollection()).findOne({ _id: getDocumentId(sessionId, CREDS_KEY) });
+  const creds: AuthenticationCreds = credsDoc ? JSON.parse(credsDoc.value, BufferJSON.reviver) : initAuthCreds();
+
+  const keys: SignalKeyStore = {
+    get: async (type, ids) => {
+      const data: { [id: string]: any } = {};
+      const missing: string[] = [];
+
+      for (const id of ids) {
+        const docId = getDocumentId(sessionId, toAuthKey(`${type}-${id}`));
+        if (keyCache.has(docId)) {
+          data[id] = keyCache.get(docId);
+          cacheKey(docId, data[id]);
+        } else {
+          missing.push(id);
+        }
+      }
+
+      if (missing.length > 0) {
+        const byDocId = new Map(missing.map(id => [getDocumentId(sessionId, toAuthKey(`${type}-${id}`)), id]));
+        const docs = await (await getAuthCollection()).find({ _id: { $in: Array.from(byDocId.keys()) } }).toArray();
+        const found = new Map(docs.map(doc => [doc._id, parseValue(doc.key, doc.value)]));
+
+        for (const [docId, id] of byDocId) {
+          const value = found.get(docId) ?? null;
+          cacheKey(docId, value);
+          data[id] = value;
+        }
+      }
+
+      return data;
+    },
+
+    set: async (data) => {
+      const now = new Date();
+      const operations: AnyBulkWriteOperation<AuthStateDocument>[] = [];
+      const touched: string[] = [];
+
+      for (const type in data) {
+        const entries = data[type as keyof typeof data] || {};
+        for (const id in entries) {
+          const value = (entries as Record<string, any>)[id];
+          const key = toAuthKey(`${type}-${id}`);
+          const docId = getDocumentId(sessionId, key);
+
+          // Cache atualizado na hora: o Baileys lê logo depois de gravar
+          cacheKey(docId, value ?? null);
+          touched.push(docId);
+
+          operations.push(value
+            ? {
+              replaceOne: {
+                filter: { _id: docId },
+                replacement: { sessionId, key, value: JSON.stringify(value, BufferJSON.replacer), updatedAt: now },
+                upsert: true,
+              },
+            }
+            : { deleteOne: { filter: { _id: docId } } });
+        }
+      }
+
+      if (operations.length === 0) {
+        return;
+      }
+
+      try {
+        await enqueueWrite(() => withTransaction(async (database, session) => {
+          await database.collection<AuthStateDocument>(AUTH_COLLECTION).bulkWrite(operations, { session, ordered: true });
+        }));
+      } catch (error: any) {
+        // O banco não mudou: força a próxima leitura a buscar de lá
+        touched.forEach(docId => keyCache.delete(docId));
+        logger.error(`❌ Falha ao gravar ${operations.length} chave(s) da sessão: ${error.message}`);
+        throw error;
+      }
+    },
+  };
+
+  const saveCreds = async (): Promise<void> => {
+    const docId = getDocumentId(sessionId, CREDS_KEY);
+    const value = JSON.stringify(creds, BufferJSON.replacer);
+    await enqueueWrite(async () => (await getAuthCollection()).replaceOne(
+      { _id: docId },
+      { sessionId, key: CREDS_KEY, value, updatedAt: new Date() },
+      { upsert: true }
+    ));
+  };
+
+  return { state: { creds, keys }, saveCreds };
+}
+
+/**
+ * Auth state do backend configurado (WHATSAPP_CONFIG.authState.backend)
+ */
+export async function loadAuthState(): Promise<{ state: AuthenticationState; saveCreds: () => Promise<void> }> {
+  const { backend, sessionId } = WHATSAPP_CONFIG.authState;
+  if (backend === 'mongo') {
+    logger.info(`🔑 Sessão do WhatsApp no MongoDB (${sessionId})`);
+    return useMongoAuthState(sessionId);
+  }
+  return useMultiFileAuthState(WHATSAPP_CONFIG.authStatePath);
+}
+
+/**
+ * Apaga a sessão do backend configurado (o próximo connect pede novo pareamento)
+ */
+export async function clearAuthState(): Promise<void> {
+  const { backend, sessionId } = WHATSAPP_CONFIG.authState;
+
+  try {
+    if (backend === 'mongo') {
+      // Entra na fila de gravações para nenhum set pendente recriar chaves depois da limpeza
+      const result = await enqueueWrite(async () => (await getAuthCollection()).deleteMany({ sessionId }));
+      for (const docId of keyCache.keys()) {
+        if (docId.startsWith(`${sessionId}/`)) keyCache.delete(docId);
+      }
+      logger.info(`Estado de autenticação limpo com sucesso (${result.deletedCount} registro(s) no MongoDB)`);
+      return;
+    }
+
+    const authPath = WHATSAPP_CONFIG.authStatePath;
+    const files = await fs.readdir(authPath);
+
+    for (const file of files) {
+      await fs.unlink(path.join(authPath, file));
+    }
+
+    logger.info('Estado de autenticação limpo com sucesso');
+  } catch (error) {
+    logger.error('Erro ao limpar estado:', error);
+  }
+}
+
+/**
+ * Importa uma pasta do useMultiFileAuthState para o MongoDB numa única transação
+ * Sem replace, recusa sobrescrever uma sessão que já existe no banco
+ */
+export async function importAuthFolder(folder: string, sessionId: string, replace = false): Promise<number> {
+  const files = (await fs.readdir(folder)).filter(file => file.endsWith('.json'));
+  if (!files.includes(`${CREDS_KEY}.json`)) {
+    throw new Error(`${folder} não tem ${CREDS_KEY}.json (não parece uma pasta de sessão do Baileys)`);
+  }
+
+  const now = new Date();
+  const documents: AuthStateDocument[] = [];
+  for (const file of files) {
+    const key = file.slice(0, -'.json'.length);
+    const value = await fs.readFile(path.join(folder, file), 'utf-8');
+    JSON.parse(value); // Arquivo corrompido interrompe a importação antes de gravar
+    documents.push({ _id: getDocumentId(sessionId, key), sessionId, key, value, updatedAt: now });
+  }
+
+  await withTransaction(async (db, session) => {
+    const collection = db.collection<AuthStateDocument>(AUTH_COLLECTION);
+    const existing = await collection.countDocuments({ sessionId }, { session });
+    if (existing > 0 && !replace) {
+      throw new Error(`A sessão "${sessionId}" já tem ${existing} registro(s) no MongoDB (use --replace para sobrescrever)`);
+    }
+
+    await collection.deleteMany({ sessionId }, { session });
+    await collection.insertMany(documents, { session });
+  });
+
+  return documents.length;
+}
@@ -0,0 +1,166 @@
+import type { WAMessage } from '@whiskeysockets/baileys';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
+import { connectMongo } from './mongodb.service';
+import { getGroups } from './group-registry.service';
+import { getActiveSocket } from './whatsapp.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('CatchUp');
+
+/**
+ * Marca d'água do grupo: última mensagem tratada (coleção group_watermarks)
+ */
+interface GroupWatermark {
+  _id: string; // chatId
+  lastTimestamp: number; // Segundos (messageTimestamp do WhatsApp)
+  lastMessageId: string;
+  updatedAt: Date;
+}
+
+// Marcas lidas quando a conexão abriu: a recuperação compara com elas, e não com a marca
+// que as mensagens ao vivo já avançaram depois da reconexão
+let watermarkSnapshot: Promise<Map<string, GroupWatermark>> = Promise.resolve(new Map());
+
+// Sugestões recuperadas por grupo aguardando o resumo
+const pendingSummaries = new Map<string, { count: number; timer: NodeJS.Timeout }>();
+
+export function getMessageTimestamp(msg: WAMessage): number {
+  return Number(msg.messageTimestamp || 0);
+}
+
+/**
+ * Marca do grupo; na primeira vez (grupo sem marca) grava agora como ponto de partida
+ * Assim o primeiro start não reprocessa todo o histórico da janela máxima
+ */
+async function getOrSeedWatermark(chatId: string, now = Date.now()): Promise<GroupWatermark> {
+  const db = await connectMongo();
+  const result = await db.collection<GroupWatermark>('group_watermarks').findOneAndUpdate(
+    { _id: chatId },
+    { $setOnInsert: { lastTimestamp: Math.floor(now / 1000), lastMessageId: '', updatedAt: new Date(now) } },
+    { upsert: true, returnDocument: 'after', includeResultMetadata: true }
+  );
+
+  if (!result.lastErrorObject?.updatedExisting) {
+    logger.info(`📍 Primeira marca de ${chatId}: mensagens anteriores a agora não serão recuperadas`);
+  }
+  return result.value!;
+}
+
+/**
+ * Fotografa a marca de cada grupo registrado (chamado quando a conexão abre)
+ * Grupo sem marca ganha uma agora; falha ao ler deixa o grupo de fora (sem recuperação)
+ */
+export function snapshotWatermarks(now = Date.now()): Promise<Map<string, GroupWatermark>> {
+  watermarkSnapshot = (async () => {
+    const snapshot = new Map<string, GroupWatermark>();
+    try {
+      for (const chatId of (await getGroups()).keys()) {
+        snapshot.set(chatId, await getOrSeedWatermark(chatId, now));
+      }
+    } catch (error: any) {
+      logger.warn(`⚠️ [MONGODB] Falha ao ler as marcas dos grupos, recuperação limitada: ${error.message}`);
+    }
+    return snapshot;
+  })();
+  return watermarkSnapshot;
+}
+
+/**
+ * Marca do grupo no momento da conexão (null se não foi possível lê-la)
+ */
+export async function getCatchUpWatermark(chatId: string): Promise<GroupWatermark | null> {
+  return (await watermarkSnapshot).get(chatId) || null;
+}
+
+/**
+ * Avança a marca do grupo se a mensagem for mais nova que a atual
+ * Espera a foto da conexão, para uma mensagem ao vivo não ser gravada antes dela
+ */
+export async function advanceWatermark(msg: WAMessage): Promise<void> {
+  const chatId = msg.key.remoteJid;
+  const timestamp = getMessageTimestamp(msg);
+  if (!chatId || !msg.key.id || !timestamp) {
+    return;
+  }
+
+  await watermarkSnapshot;
+
+  try {
+    const db = await connectMongo();
+    await db.collection<GroupWatermark>('group_watermarks').updateOne(
+      { _id: chatId, $or: [{ lastTimestamp: { $lt: timestamp } }, { lastTimestamp: { $exists: false } }] },
+      { $set: { lastTimestamp: timestamp, lastMessageId: msg.key.id, updatedAt: new Date() } },
+      { upsert: true }
+    );
+  } catch (error: any) {
+    // Marca já mais nova: o upsert colide com o _id existente
+    if (error.code !== 11000) {
+      logger.warn(`⚠️ Falha ao avançar a marca de ${chatId}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Decide se uma mensagem recuperada (append/history) ainda precisa ser processada
+ * Precisa ser mais nova que a marca do grupo e estar dentro da janela máxima
+ * Sem marca (MongoDB indisponível) não recupera nada: melhor perder do que reprocessar a janela inteira
+ */
+export function shouldCatchUp(msg: WAMessage, watermark: GroupWatermark | null, now = Date.now()): boolean {
+  const { enabled, maxLookbackHours } = WHATSAPP_CONFIG.catchUp;
+  const timestamp = getMessageTimestamp(msg);
+  if (!enabled || !timestamp) {
+    return false;
+  }
+
+  if (timestamp * 1000 < now - maxLookbackHours * 60 * 60 * 1000) {
+    return false;
+  }
+
+  if (!watermark) {
+    return false;
+  }
+
+  return timestamp > watermark.lastTimestamp
+    || (timestamp === watermark.lastTimestamp && msg.key.id !== watermark.lastMessageId);
+}
+
+async function sendCatchUpSummary(chatId: string, count: number): Promise<void> {
+  const sock = getActiveSocket();
+  if (!sock) {
+    logger.warn(`⚠️ WhatsApp desconectado - resumo da recuperação de ${chatId} não enviado`);
+    return;
+  }
+
+  const text = count === 1
+    ? '📥 Processei 1 sugestão enviada enquanto eu estava offline.'
+    : `📥 Processei ${count} sugestões enviadas enquanto eu estava offline.`;
+
+  try {
+    await sock.sendMessage(chatId, { text });
+    logger.success(`✅ Resumo da recuperação enviado para ${chatId}: ${count} sugestão(ões)`);
+  } catch (error: any) {
+    logger.error(`🔴 [WHATSAPP] Erro ao enviar resumo da recuperação: ${error.message}`);
+  }
+}
+
+/**
+ * Soma sugestões recuperadas e agenda um único resumo por grupo
+ */
+export function recordCatchUpSuggestions(chatId: string, count: number): void {
+  if (count <= 0) {
+    return;
+  }
+
+  const current = pendingSummaries.get(chatId);
+  if (current) {
+    clearTimeout(current.timer);
+  }
+
+  const total = (current?.count || 0) + count;
+  const timer = setTimeout(() => {
+    pendingSummaries.delete(chatId);
+    sendCatchUpSummary(chatId, total);
+  }, WHATSAPP_CONFIG.catchUp.summaryDelayMs);
+
+  pendingSummaries.set(chatId, { count: total, timer });
+}
@@ -0,0 +1,47 @@
+import { connectMongo } from './mongodb.service';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Dedupe');
+
+/**
+ * Mensagem do WhatsApp já reivindicada para processamento
+ * _id = chatId:key.id; o índice TTL em expiresAt limpa os registros antigos
+ */
+interface ProcessedMessage {
+  _id: string;
+  chatId: string;
+  keyId: string;
+  claimedAt: Date;
+  expiresAt: Date;
+}
+
+export function getDedupeKey(chatId: string, keyId: string): string {
+  return `${chatId}:${keyId}`;
+}
+
+/**
+ * Reivindica a mensagem de forma atômica (insert com _id único)
+ * Retorna false se ela já foi reivindicada antes, inclusive por outra execução do processo
+ */
+export async function claimMessage(chatId: string, keyId: string): Promise<boolean> {
+  const db = await connectMongo();
+  const now = new Date();
+
+  try {
+    await db.collection<ProcessedMessage>('processed_messages').insertOne({
+      _id: getDedupeKey(chatId, keyId),
+      chatId,
+      keyId,
+      claimedAt: now,
+      expiresAt: new Date(now.getTime() + WHATSAPP_CONFIG.dedupeTtlHours * 60 * 60 * 1000),
+    });
+    return true;
+  } catch (error: any) {
+    if (error.code === 11000) {
+      logger.info(`Mensagem duplicada ignorada: ${getDedupeKey(chatId, keyId)}`);
+      return false;
+    }
+    throw error;
+  }
+}
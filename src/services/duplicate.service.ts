@@ -0,0 +1,74 @@
+import { VIDEO_CONFIG } from '../config/video.config';
+import { VideoSuggestion, addUpvote, findLatestByVideo } from './mongodb.service';
+import type { ParsedVideoUrl } from '../utils/video-url.utils';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Duplicates');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type DuplicateDecision =
+  | { action: 'new' }
+  | { action: 'duplicate'; original: VideoSuggestion }
+  | { action: 'upvote'; original: VideoSuggestion; upvotes: number | null };
+
+/**
+ * Decide o que fazer com um vídeo que pode já ter sido sugerido
+ * Aplica a política configurada em VIDEO_CONFIG.duplicates
+ */
+export async function checkDuplicateVideo(
+  video: Pick<ParsedVideoUrl, 'platform' | 'videoId'>,
+  messageId: string,
+  voterJid: string,
+  tenantId: string
+): Promise<DuplicateDecision> {
+  const original = await findLatestByVideo(video.platform, video.videoId, tenantId);
+
+  // Mesma mensagem reentregue: o índice único de messageId cuida disso
+  if (!original || original.messageId === messageId) {
+    return { action: 'new' };
+  }
+
+  const { policy, resuggestAfterDays } = VIDEO_CONFIG.duplicates;
+  logger.info(`🔁 Vídeo ${video.platform}:${video.videoId} já sugerido em ${original.messageId} (política: ${policy})`);
+
+  if (policy === 'resuggest') {
+    const ageMs = Date.now() - new Date(original.createdAt).getTime();
+    if (ageMs >= resuggestAfterDays * DAY_MS) {
+      return { action: 'new' };
+    }
+    return { action: 'duplicate', original };
+  }
+
+  if (policy === 'upvote') {
+    const upvotes = await addUpvote(original.messageId, voterJid);
+    return { action: 'upvote', original, upvotes };
+  }
+
+  return { action: 'duplicate', original };
+}
+
+/**
+ * Texto da resposta que aponta para a sugestão original
+ */
+export function formatDuplicateReply(decision: Exclude<DuplicateDecision, { action: 'new' }>): string {
+  const { original } = decision;
+  const when = new Date(original.createdAt).toLocaleString('pt-BR', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  const lines = [`🔁 Esse vídeo já foi sugerido por *${original.sugeridoPor}* em ${when}.`];
+
+  if (decision.action === 'upvote') {
+    lines.push(decision.upvotes === null
+      ? 'Você já tinha votado nele 😉'
+      : `Contei como voto! Agora são ${decision.upvotes} voto(s) extra(s).`);
+  } else if (VIDEO_CONFIG.duplicates.policy === 'resuggest') {
+    lines.push(`Ele pode ser sugerido de novo ${VIDEO_CONFIG.duplicates.resuggestAfterDays} dias após a última sugestão.`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,102 @@
+import { GROUPS_CONFIG, GroupConfig, QuietHours, DEFAULT_TENANT_ID, parseQuietHours } from '../config/groups.config';
+import { RABBITMQ_CONFIG } from '../config/rabbitmq.config';
+import { RATE_LIMIT_CONFIG, RateLimitSettings, parseRateLimit } from '../config/rate-limit.config';
+import { connectMongo } from './mongodb.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('GroupRegistry');
+
+let cachedGroups: Map<string, GroupConfig> | null = null;
+let cachedAt = 0;
+
+/**
+ * Carrega os grupos do MongoDB (coleção 'groups'), se habilitado
+ */
+async function loadGroupsFromMongo(): Promise<GroupConfig[]> {
+  const db = await connectMongo();
+  const docs = await db.collection('groups').find({ enabled: { $ne: false } }).toArray();
+
+  return docs
+    .filter(doc => typeof doc.jid === 'string')
+    .map(doc => ({
+      jid: doc.jid,
+      tenantId: doc.tenantId || DEFAULT_TENANT_ID,
+      name: doc.name,
+      queue: doc.queue || RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS,
+      errorNotificationJid: doc.errorNotificationJid,
+      quietHours: parseQuietHours(doc.quietHours),
+      rateLimit: parseRateLimit(doc.rateLimit),
+    }));
+}
+
+/**
+ * Retorna o registro de grupos (config + MongoDB), com cache
+ * Grupos do MongoDB sobrescrevem os do .env com o mesmo JID
+ */
+export async function getGroups(): Promise<Map<string, GroupConfig>> {
+  if (cachedGroups && Date.now() - cachedAt < GROUPS_CONFIG.cacheTtlMs) {
+    return cachedGroups;
+  }
+
+  const groups = new Map<string, GroupConfig>();
+  for (const group of GROUPS_CONFIG.groups) {
+    groups.set(group.jid, group);
+  }
+
+  if (GROUPS_CONFIG.useMongoRegistry) {
+    try {
+      for (const group of await loadGroupsFromMongo()) {
+        groups.set(group.jid, group);
+      }
+    } catch (error: any) {
+      // Sem MongoDB, mantém o cache anterior (ou só os grupos do .env)
+      logger.error(`Erro ao carregar grupos do MongoDB: ${error.message}`);
+      if (cachedGroups) return cachedGroups;
+    }
+  }
+
+  cachedGroups = groups;
+  cachedAt = Date.now();
+  return groups;
+}
+
+/**
+ * Configuração do grupo autorizado, ou null se o JID não estiver registrado
+ */
+export async function getGroupConfig(jid: string | null | undefined): Promise<GroupConfig | null> {
+  if (!jid) return null;
+  const groups = await getGroups();
+  return groups.get(jid) || null;
+}
+
+/**
+ * Outros grupos registrados que publicam na mesma fila (a fila padrão é compartilhada)
+ */
+export async function getGroupsSharingQueue(group: GroupConfig): Promise<GroupConfig[]> {
+  const groups = await getGroups();
+  return Array.from(groups.values()).filter(other => other.jid !== group.jid && other.queue === group.queue);
+}
+
+/**
+ * JID que recebe as notificações de erro do grupo
+ */
+export function getErrorNotificationJid(group: GroupConfig | null): string | undefined {
+  return group?.errorNotificationJid || GROUPS_CONFIG.defaultErrorNotificationJid;
+}
+
+/**
+ * Horário de silêncio do grupo (o do grupo tem prioridade sobre o padrão)
+ */
+export function getQuietHours(group: GroupConfig | null): QuietHours | null {
+  if (group?.quietHours !== undefined) {
+    return group.quietHours;
+  }
+  return GROUPS_CONFIG.defaultQuietHours;
+}
+
+/**
+ * Limites de sugestão do grupo (sobrescrita do grupo sobre o padrão global)
+ */
+export function getRateLimitSettings(group: GroupConfig | null): RateLimitSettings {
+  return { ...RATE_LIMIT_CONFIG, ...group?.rateLimit };
+}
@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import P from 'pino';
+import { downloadMediaMessage, WAMessage } from '@whiskeysockets/baileys';
+import type { MediaKind, WhatsappSocket } from '../types';
+import { MEDIA_CONFIG } from '../config/media.config';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
+import { getMediaStorage, StoredMedia } from '../storage';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Media');
+
+const MEDIA_TOO_LARGE_ERROR = 'MediaTooLargeError';
+
+const EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/3gpp': '3gp',
+  'video/webm': 'webm',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+/**
+ * Mídia baixada do WhatsApp, ainda não gravada
+ */
+export interface DownloadedMedia {
+  kind: MediaKind;
+  buffer: Buffer;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  caption: string;
+}
+
+/**
+ * Dados da mídia informados na própria mensagem, antes do download
+ * declaredSha256 é o fileSha256 do WhatsApp: sha256 do arquivo decifrado, o mesmo que calculamos após baixar
+ */
+export interface MediaContent {
+  kind: MediaKind;
+  mimeType: string;
+  declaredSize: number;
+  declaredSha256?: string;
+  caption: string;
+}
+
+function toHex(value: Uint8Array | string | null | undefined): string | undefined {
+  if (!value || value.length === 0) return undefined;
+  return typeof value === 'string' ? Buffer.from(value, 'base64').toString('hex') : Buffer.from(value).toString('hex');
+}
+
+/**
+ * Vídeo ou imagem presente na mensagem (null para outros tipos)
+ */
+export function getMediaContent(msg: WAMessage): MediaContent | null {
+  const video = msg.message?.videoMessage;
+  if (video) {
+    return {
+      kind: 'video',
+      mimeType: video.mimetype || 'video/mp4',
+      declaredSize: Number(video.fileLength || 0),
+      declaredSha256: toHex(video.fileSha256),
+      caption: video.caption || '',
+    };
+  }
+
+  const image = msg.message?.imageMessage;
+  if (image) {
+    return {
+      kind: 'image',
+      mimeType: image.mimetype || 'image/jpeg',
+      declaredSize: Number(image.fileLength || 0),
+      declaredSha256: toHex(image.fileSha256),
+      caption: image.caption || '',
+    };
+  }
+
+  return null;
+}
+
+export function createMediaTooLargeError(kind: MediaKind, size: number): Error {
+  const limitMb = (MEDIA_CONFIG.maxBytes[kind] / 1024 / 1024).toFixed(0);
+  const sizeMb = (size / 1024 / 1024).toFixed(1);
+  const error = new Error(`Arquivo de ${sizeMb} MB passa do limite de ${limitMb} MB para ${kind === 'video' ? 'vídeos' : 'imagens'}`);
+  error.name = MEDIA_TOO_LARGE_ERROR;
+  return error;
+}
+
+export function isMediaTooLargeError(error: any): boolean {
+  return error?.name === MEDIA_TOO_LARGE_ERROR;
+}
+
+/**
+ * Baixa a mídia da mensagem, validando o tamanho antes e depois do download
+ */
+export async function downloadMessageMedia(sock: WhatsappSocket, msg: WAMessage): Promise<DownloadedMedia> {
+  const content = getMediaContent(msg);
+  if (!content) {
+    throw new Error('Mensagem sem vídeo ou imagem');
+  }
+
+  const maxBytes = MEDIA_CONFIG.maxBytes[content.kind];
+  if (content.declaredSize > maxBytes) {
+    throw createMediaTooLargeError(content.kind, content.declaredSize);
+  }
+
+  const buffer = await downloadMediaMessage(msg, 'buffer', {}, {
+    logger: P({ level: WHATSAPP_CONFIG.loggerLevel }),
+    reuploadRequest: sock.updateMediaMessage,
+  });
+
+  if (buffer.length > maxBytes) {
+    throw createMediaTooLargeError(content.kind, buffer.length);
+  }
+
+  return {
+    kind: content.kind,
+    buffer,
+    mimeType: content.mimeType.split(';')[0].trim(),
+    size: buffer.length,
+    sha256: createHash('sha256').update(buffer).digest('hex'),
+    caption: content.caption,
+  };
+}
+
+/**
+ * Grava a mídia no backend configurado, endereçada pelo sha256
+ * O mesmo conteúdo enviado de novo reaproveita o arquivo existente
+ */
+export async function storeMedia(media: DownloadedMedia): Promise<StoredMedia> {
+  const extension = EXTENSIONS[media.mimeType] || 'bin';
+  const key = `${media.kind}/${media.sha256.substring(0, 2)}/${media.sha256}.${extension}`;
+
+  const stored = await getMediaStorage().put(key, media.buffer, media.mimeType);
+  logger.success(`✅ Mídia gravada: ${stored.ref} (${(media.size / 1024).toFixed(0)} KB)`);
+  return stored;
+}
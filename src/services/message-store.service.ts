@@ -0,0 +1,131 @@
+import { Binary } from 'mongodb';
+import { proto, WAMessage, WAMessageKey } from '@whiskeysockets/baileys';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
+import { connectMongo } from './mongodb.service';
+import type { VideoSuggestion } from './mongodb.service';
+import { buildQuotedSuggestion } from '../utils/whatsapp.utils';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('MessageStore');
+
+/**
+ * Mensagem guardada (coleção message_store); o conteúdo vai em protobuf
+ */
+interface StoredMessage {
+  _id: string; // remoteJid:id
+  key: WAMessageKey;
+  message: Binary;
+  messageTimestamp?: number;
+  pushName?: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+let writesSincePrune = 0;
+
+function getStoreKey(key: WAMessageKey): string | null {
+  return key.remoteJid && key.id ? `${key.remoteJid}:${key.id}` : null;
+}
+
+/**
+ * Mantém a coleção no tamanho máximo removendo as mensagens mais antigas
+ */
+async function pruneMessageStore(): Promise<void> {
+  const { maxEntries } = WHATSAPP_CONFIG.messageStore;
+  const db = await connectMongo();
+  const collection = db.collection<StoredMessage>('message_store');
+
+  const excess = (await collection.estimatedDocumentCount()) - maxEntries;
+  if (excess <= 0) {
+    return;
+  }
+
+  const oldest = await collection.find({}, { projection: { _id: 1 } })
+    .sort({ createdAt: 1 })
+    .limit(excess)
+    .toArray();
+  await collection.deleteMany({ _id: { $in: oldest.map(doc => doc._id) } });
+  logger.info(`🧹 ${oldest.length} mensagem(ns) antiga(s) removida(s) do store`);
+}
+
+/**
+ * Guarda a mensagem (enviada pelo bot ou recebida num grupo autorizado)
+ * Falhas são apenas logadas: o store é um apoio, não pode travar o fluxo
+ */
+export async function storeMessage(msg: WAMessage): Promise<void> {
+  const id = getStoreKey(msg.key);
+  if (!id || !msg.message) {
+    return;
+  }
+
+  try {
+    const now = new Date();
+    const db = await connectMongo();
+    await db.collection<StoredMessage>('message_store').updateOne(
+      { _id: id },
+      {
+        $set: {
+          key: msg.key,
+          message: new Binary(proto.Message.encode(msg.message).finish()),
+          messageTimestamp: Number(msg.messageTimestamp || 0) || undefined,
+          pushName: msg.pushName || undefined,
+          expiresAt: new Date(now.getTime() + WHATSAPP_CONFIG.messageStore.ttlDays * 24 * 60 * 60 * 1000),
+        },
+        $setOnInsert: { createdAt: now },
+      },
+      { upsert: true, ignoreUndefined: true }
+    );
+
+    if (++writesSincePrune >= WHATSAPP_CONFIG.messageStore.pruneEvery) {
+      writesSincePrune = 0;
+      await pruneMessageStore();
+    }
+  } catch (error: any) {
+    logger.warn(`⚠️ Falha ao guardar mensagem ${id}: ${error.message}`);
+  }
+}
+
+/**
+ * Busca a mensagem completa pela chave; null se não estiver no store
+ */
+export async function loadMessage(key: WAMessageKey): Promise<WAMessage | null> {
+  const id = getStoreKey(key);
+  if (!id) {
+    return null;
+  }
+
+  try {
+    const db = await connectMongo();
+    const stored = await db.collection<StoredMessage>('message_store').findOne({ _id: id });
+    if (!stored) {
+      return null;
+    }
+
+    return {
+      key: stored.key,
+      message: proto.Message.decode(stored.message.buffer),
+      messageTimestamp: stored.messageTimestamp,
+      pushName: stored.pushName,
+    };
+  } catch (error: any) {
+    logger.warn(`⚠️ Falha ao ler mensagem ${id}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Conteúdo para o getMessage do Baileys (reenvio de mensagens em retry receipts)
+ */
+export async function getStoredMessageContent(key: WAMessageKey): Promise<proto.IMessage | undefined> {
+  return (await loadMessage(key))?.message || undefined;
+}
+
+/**
+ * Mensagem original da sugestão para citar numa resposta
+ * Usa a mensagem guardada (cita mídia e legenda corretamente) e cai no texto salvo se ela já expirou
+ */
+export async function loadQuotedSuggestion(suggestion: VideoSuggestion): Promise<WAMessage> {
+  const fallback = buildQuotedSuggestion(suggestion);
+  const stored = await loadMessage(fallback.key);
+  return stored || fallback;
+}
@@ -0,0 +1,101 @@
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Metrics');
+
+type Labels = Record<string, string>;
+
+interface CounterMetric {
+  help: string;
+  values: Map<string, { labels: Labels; value: number }>;
+}
+
+interface GaugeMetric {
+  help: string;
+  collect: () => Promise<Array<{ labels: Labels; value: number }>>;
+}
+
+/**
+ * Contadores expostos em /metrics (formato texto do Prometheus)
+ */
+export const METRICS = {
+  messagesSeen: { name: 'trip_video_messages_seen_total', help: 'Mensagens recebidas do WhatsApp' },
+  suggestionsSaved: { name: 'trip_video_suggestions_saved_total', help: 'Sugestões salvas no MongoDB' },
+  publishFailures: { name: 'trip_video_publish_failures_total', help: 'Falhas ao publicar sugestões na fila' },
+  outboxUnconfirmed: { name: 'trip_video_outbox_unconfirmed_total', help: 'Publicações confirmadas pelo broker sem baixa no outbox (serão repetidas)' },
+  reactionsSent: { name: 'trip_video_reactions_sent_total', help: 'Reações enviadas pelo bot' },
+  reconnects: { name: 'trip_video_whatsapp_reconnects_total', help: 'Reconexões ao WhatsApp por status code' },
+} as const;
+
+const counters = new Map<string, CounterMetric>();
+const gauges = new Map<string, GaugeMetric>();
+
+function labelsKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatSample(name: string, labels: Labels, value: number): string {
+  const entries = Object.entries(labels);
+  const labelText = entries.length > 0
+    ? `{${entries.map(([key, val]) => `${key}="${escapeLabelValue(val)}"`).join(',')}}`
+    : '';
+  return `${name}${labelText} ${value}`;
+}
+
+/**
+ * Incrementa um contador (criado na primeira vez que é usado)
+ */
+export function incrementCounter(metric: { name: string; help: string }, labels: Labels = {}, amount = 1): void {
+  let counter = counters.get(metric.name);
+  if (!counter) {
+    counter = { help: metric.help, values: new Map() };
+    counters.set(metric.name, counter);
+  }
+
+  const key = labelsKey(labels);
+  const current = counter.values.get(key);
+  if (current) {
+    current.value += amount;
+  } else {
+    counter.values.set(key, { labels, value: amount });
+  }
+}
+
+/**
+ * Registra um gauge calculado no momento do scrape
+ */
+export function registerGauge(name: string, help: string, collect: GaugeMetric['collect']): void {
+  gauges.set(name, { help, collect });
+}
+
+/**
+ * Texto completo do /metrics
+ * Gauges que falham na coleta são omitidos (o erro vai para o log)
+ */
+export async function renderMetrics(): Promise<string> {
+  const lines: string[] = [];
+
+  for (const [name, counter] of counters) {
+    lines.push(`# HELP ${name} ${counter.help}`, `# TYPE ${name} counter`);
+    for (const { labels, value } of counter.values.values()) {
+      lines.push(formatSample(name, labels, value));
+    }
+  }
+
+  for (const [name, gauge] of gauges) {
+    try {
+      const samples = await gauge.collect();
+      lines.push(`# HELP ${name} ${gauge.help}`, `# TYPE ${name} gauge`);
+      for (const { labels, value } of samples) {
+        lines.push(formatSample(name, labels, value));
+      }
+    } catch (error: any) {
+      logger.warn(`⚠️ Falha ao coletar ${name}: ${error.message}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
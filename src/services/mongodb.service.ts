@@ -1,5 +1,9 @@
-import { MongoClient, Db, ObjectId, MongoServerError } from 'mongodb';
+import { MongoClient, Db, ObjectId, MongoServerError, ClientSession, Filter } from 'mongodb';
 import { MONGODB_CONFIG } from '../config/mongodb.config';
+import { RABBITMQ_CONFIG } from '../config/rabbitmq.config';
+import { DEFAULT_TENANT_ID } from '../config/groups.config';
+import { buildVideoSuggestionEnvelope } from '../utils/envelope.utils';
+import type { MediaKind, VideoPlatform, VideoSuggestionEnvelope } from '../types';
 import { createLogger } from '../utils/logger.utils';
 
 const logger = createLogger('MongoDB');
@@ -7,19 +11,106 @@ const logger = createLogger('MongoDB');
 let client: MongoClient | null = null;
 let db: Db | null = null;
 let isConnecting = false;
+// false em servidor standalone: withTransaction passa a gravar sem sessão
+let transactionsSupported = true;
+
+// 'deferred': segurada pelo limite de sugestões até o outbox liberar
+export type SuggestionStatus = 'deferred' | 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Entrada do histórico de transições de status
+ */
+export interface StatusTransition {
+  from: SuggestionStatus;
+  to: SuggestionStatus;
+  at: Date;
+  reason?: string;
+  worker?: string;
+}
 
 export interface VideoSuggestion {
-  url: string;
+  url: string; // URL canônica
+  originalUrl?: string; // URL como foi enviada no grupo
+  platform?: VideoPlatform;
+  videoId?: string; // ID canônico na plataforma
   texto: string;
   sugeridoPor: string;
-  messageId: string;
+  sugeridoPorJid?: string; // JID do participante (para citar a mensagem original)
+  messageId: string; // Único por sugestão (mensagens com vários links recebem sufixo _N)
+  sourceMessageId?: string; // key.id da mensagem do WhatsApp que originou a sugestão
+  urlIndex?: number; // Posição do link na mensagem
   chatId: string;
+  tenantId?: string | null; // Viagem/tenant do grupo de origem (ausente nas sugestões antigas)
   timestamp: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: SuggestionStatus;
+  statusHistory?: StatusTransition[];
+  output?: Record<string, any>; // Metadados do resultado enviados pelo worker
+  failureReason?: string;
+  statusUpdatedAt?: Date;
   publishedToQueue: boolean;
   iaProcess: boolean;
   createdAt: Date;
   publishedAt?: Date;
+  upvotes?: number; // Re-sugestões contadas como voto
+  upvotedBy?: string[];
+  votes?: number; // Reações de membros na mensagem da sugestão
+  votedBy?: string[];
+  priorityScore?: number; // votes + upvotes (ranking de prioridade)
+  // Mídia enviada direto no grupo (platform 'upload')
+  mediaRef?: string;
+  mediaKind?: MediaKind;
+  mediaMimeType?: string;
+  mediaSize?: number;
+  mediaSha256?: string;
+  thumbnailRef?: string; // Thumbnail WebP no armazenamento de mídia
+  metadata?: Record<string, string>; // Escolhas dos menus de resposta rápida (priority, category...)
+  tags?: string[]; // Marcações livres feitas pela API
+  deletedAt?: Date; // Remoção lógica (some das listagens, do /top e do /today)
+  _id?: ObjectId;
+}
+
+/**
+ * Filtros da listagem de sugestões (API HTTP)
+ */
+export interface SuggestionListFilter {
+  status?: SuggestionStatus[];
+  platform?: VideoPlatform[];
+  suggester?: string; // JID ou nome de quem sugeriu
+  chatId?: string;
+  tag?: string;
+  from?: Date; // createdAt >= from
+  to?: Date; // createdAt < to
+}
+
+// Sugestões removidas (soft delete) ficam fora de listagens, duplicados, replay e estatísticas
+export const NOT_DELETED = { deletedAt: { $exists: false } };
+
+// lastError do registro do outbox cancelado pela remoção da sugestão
+export const OUTBOX_DELETED_ERROR = 'Sugestão removida';
+
+/**
+ * Filtro de tenant: sugestões anteriores ao registro de grupos não têm tenantId e pertencem ao tenant padrão
+ */
+export function buildTenantFilter(tenantId: string): Filter<VideoSuggestion>['tenantId'] {
+  return tenantId === DEFAULT_TENANT_ID ? { $in: [tenantId, null] } : tenantId;
+}
+
+/**
+ * Registro de publicação pendente (transactional outbox)
+ * Gravado na mesma transação da sugestão e drenado pelo relay para a fila
+ */
+export interface OutboxEntry {
+  messageId: string;
+  queue: string;
+  payload: VideoSuggestionEnvelope;
+  status: 'pending' | 'published' | 'failed';
+  attempts: number;
+  nextAttemptAt: Date;
+  lockedUntil: Date | null;
+  lastError?: string;
+  revision?: number; // Incrementado a cada republicação (evita que uma publicação antiga feche a nova)
+  createdAt: Date;
+  publishedAt?: Date;
   _id?: ObjectId;
 }
 
@@ -97,6 +188,46 @@ export async function connectMongo(retries = 3, delayMs = 5000): Promise<Db> {
         { unique: true }
       );
 
+      // Índice para detectar o mesmo vídeo sugerido por membros diferentes (por tenant)
+      await db.collection('video_suggestions').createIndex({ tenantId: 1, platform: 1, videoId: 1, createdAt: -1 });
+
+      // Ranking de prioridade por votos (/top e workers)
+      await db.collection('video_suggestions').createIndex({ tenantId: 1, status: 1, priorityScore: -1, createdAt: 1 });
+
+      // Sugestões do dia por grupo (/today)
+      await db.collection('video_suggestions').createIndex({ chatId: 1, createdAt: 1 });
+
+      // Listagem da API (mais recentes primeiro, filtrando por status)
+      await db.collection('video_suggestions').createIndex({ status: 1, createdAt: -1 });
+
+      // Índices do outbox: um registro por sugestão e busca por pendentes
+      await db.collection('video_outbox').createIndex(
+        { messageId: 1 },
+        { unique: true }
+      );
+      await db.collection('video_outbox').createIndex({ status: 1, nextAttemptAt: 1 });
+
+      // Avisos de vídeo pronto aguardando envio (um por sugestão)
+      await db.collection('pending_notifications').createIndex(
+        { messageId: 1 },
+        { unique: true }
+      );
+      await db.collection('pending_notifications').createIndex({ chatId: 1, notifyAfter: 1 });
+
+      // Dedupe de mensagens do WhatsApp (expira sozinho)
+      await db.collection('processed_messages').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+      // Store de mensagens do getMessage: expiração e poda das mais antigas
+      await db.collection('message_store').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      await db.collection('message_store').createIndex({ createdAt: 1 });
+
+      // Menus de resposta rápida: busca pela mensagem do menu e expiração automática
+      await db.collection('suggestion_menus').createIndex({ chatId: 1, menuMessageId: 1 }, { unique: true });
+      await db.collection('suggestion_menus').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+      // Sessão do WhatsApp (backend 'mongo' do auth state)
+      await db.collection('whatsapp_auth').createIndex({ sessionId: 1 });
+
       logger.success(`✅ Conectado ao MongoDB: ${MONGODB_CONFIG.database} (tentativa ${attempt})`);
       isConnecting = false;
       return db;
@@ -131,11 +262,77 @@ export async function connectMongo(retries = 3, delayMs = 5000): Promise<Db> {
   throw finalError;
 }
 
-export async function saveVideoSuggestion(data: Omit<VideoSuggestion, '_id' | 'publishedToQueue' | 'iaProcess' | 'createdAt'>): Promise<VideoSuggestion> {
+/**
+ * Erro de servidor sem suporte a transações (standalone, sem replica set)
+ */
+export function createTransactionsUnsupportedError(): Error {
+  const error = new Error(
+    'O MongoDB não suporta transações: use um replica set (mesmo de um nó só, mongod --replSet) ou um cluster Atlas. ' +
+    'Sem elas, sugestão e outbox, a remoção pela API e a sessão do WhatsApp no MongoDB são gravados sem atomicidade'
+  );
+  error.name = 'TransactionsUnsupportedError';
+  return error;
+}
+
+export function isTransactionsUnsupportedError(error: any): boolean {
+  return error?.name === 'TransactionsUnsupportedError';
+}
+
+/**
+ * Confere se o servidor aceita transações (membro de replica set ou mongos)
+ * Chamado na inicialização; sem suporte, withTransaction passa a gravar sem transação
+ */
+export async function assertTransactionsSupported(): Promise<void> {
+  const database = await connectMongo();
+  const hello = await database.admin().command({ hello: 1 });
+  if (!hello.setName && hello.msg !== 'isdbgrid') {
+    transactionsSupported = false;
+    throw createTransactionsUnsupportedError();
+  }
+}
+
+/**
+ * Executa operações dentro de uma transação MongoDB
+ * Em standalone (sem replica set) executa sem sessão, na ordem, e avisa no log
+ */
+export async function withTransaction<T>(fn: (db: Db, session?: ClientSession) => Promise<T>): Promise<T> {
+  const database = await connectMongo();
+  if (!transactionsSupported) {
+    return fn(database, undefined);
+  }
+
+  const session = client!.startSession();
+
   try {
-    const db = await connectMongo();
-    const collection = db.collection<VideoSuggestion>('video_suggestions');
+    let result: T;
+    await session.withTransaction(async () => {
+      result = await fn(database, session);
+    });
+    return result!;
+  } catch (error: any) {
+    // Standalone: "Transaction numbers are only allowed on a replica set member or mongos"
+    // A primeira operação já falha, então nada foi gravado e dá para repetir sem sessão
+    if (error?.code === 20 && /replica set/i.test(error.message || '')) {
+      transactionsSupported = false;
+      logger.warn(`⚠️ ${createTransactionsUnsupportedError().message}`);
+      return fn(database, undefined);
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+}
 
+/**
+ * Salva a sugestão e o registro de publicação pendente na mesma transação
+ * releaseAt adia a publicação (sugestões 'deferred' pelo limite)
+ */
+export async function saveVideoSuggestion(
+  data: Omit<VideoSuggestion, '_id' | 'publishedToQueue' | 'iaProcess' | 'createdAt'>,
+  queue: string = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS,
+  releaseAt?: Date
+): Promise<VideoSuggestion> {
+  try {
     const doc: Omit<VideoSuggestion, '_id'> = {
       ...data,
       publishedToQueue: false, // Flag para replay
@@ -143,11 +340,26 @@ export async function saveVideoSuggestion(data: Omit<VideoSuggestion, '_id' | 'p
       createdAt: new Date()
     };
 
-    const result = await collection.insertOne(doc as any);
+    const outboxEntry: Omit<OutboxEntry, '_id'> = {
+      messageId: data.messageId,
+      queue,
+      payload: buildVideoSuggestionEnvelope(data),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: releaseAt || doc.createdAt,
+      lockedUntil: null,
+      createdAt: doc.createdAt
+    };
+
+    const insertedId = await withTransaction(async (db, session) => {
+      const result = await db.collection<VideoSuggestion>('video_suggestions').insertOne(doc, { session });
+      await db.collection<OutboxEntry>('video_outbox').insertOne(outboxEntry, { session });
+      return result.insertedId;
+    });
 
     logger.info(`✅ Vídeo salvo no MongoDB: ${data.url.substring(0, 50)}...`);
 
-    return { ...doc, _id: result.insertedId } as VideoSuggestion;
+    return { ...doc, _id: insertedId } as VideoSuggestion;
   } catch (error: any) {
     // Se for erro de duplicata (messageId único), retornar documento existente
     if (error.code === 11000) {
@@ -174,7 +386,122 @@ export async function saveVideoSuggestion(data: Omit<VideoSuggestion, '_id' | 'p
   }
 }
 
-export async function markAsPublished(messageId: string): Promise<void> {
+/**
+ * Busca a sugestão mais recente do mesmo vídeo (plataforma + videoId) no tenant
+ */
+export async function findLatestByVideo(platform: VideoPlatform, videoId: string, tenantId: string): Promise<VideoSuggestion | null> {
+  try {
+    const db = await connectMongo();
+    const tenantFilter = buildTenantFilter(tenantId);
+    return await db.collection<VideoSuggestion>('video_suggestions').findOne(
+      { platform, videoId, tenantId: tenantFilter, ...NOT_DELETED },
+      { sort: { createdAt: -1 } }
+    );
+  } catch (error) {
+    logger.error('Erro ao buscar vídeo por platform/videoId:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Leva o priorityScore atual para o envelope das sugestões que ainda não saíram do outbox
+ * (ex.: adiadas pelo limite recebendo votos); falha só é logada, o ranking no MongoDB já foi salvo
+ */
+async function syncOutboxPriority(database: Db, suggestions: VideoSuggestion[]): Promise<void> {
+  try {
+    await Promise.all(suggestions.map(suggestion => database.collection<OutboxEntry>('video_outbox').updateOne(
+      { messageId: suggestion.messageId, status: 'pending' },
+      { $set: { 'payload.data.priorityScore': suggestion.priorityScore || 0 } }
+    )));
+  } catch (error) {
+    logger.warn('⚠️ Erro ao atualizar prioridade no outbox:', getMongoErrorMessage(error));
+  }
+}
+
+/**
+ * Conta um voto (re-sugestão) na sugestão existente, um por participante
+ * Retorna o total de votos, ou null se o participante já tinha votado
+ */
+export async function addUpvote(messageId: string, voterJid: string): Promise<number | null> {
+  try {
+    const db = await connectMongo();
+    const updated = await db.collection<VideoSuggestion>('video_suggestions').findOneAndUpdate(
+      { messageId, upvotedBy: { $ne: voterJid } },
+      { $push: { upvotedBy: voterJid }, $inc: { upvotes: 1, priorityScore: 1 } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return null;
+    }
+
+    await syncOutboxPriority(db, [updated]);
+    return updated.upvotes || 0;
+  } catch (error) {
+    logger.error('Erro ao registrar voto:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Registra ou desfaz o voto (reação) de um participante nas sugestões da mensagem
+ * Recalcula votes e priorityScore no mesmo update; retorna as sugestões atualizadas
+ */
+export async function setReactionVote(
+  chatId: string,
+  sourceMessageId: string,
+  voterJid: string,
+  voted: boolean
+): Promise<VideoSuggestion[]> {
+  try {
+    const db = await connectMongo();
+    const collection = db.collection<VideoSuggestion>('video_suggestions');
+    const filter = { chatId, $or: [{ sourceMessageId }, { messageId: sourceMessageId }] };
+    const currentVoters = { $ifNull: ['$votedBy', []] };
+
+    await collection.updateMany(filter, [
+      {
+        $set: {
+          votedBy: voted
+            ? { $setUnion: [currentVoters, [voterJid]] }
+            : { $setDifference: [currentVoters, [voterJid]] }
+        }
+      },
+      {
+        $set: {
+          votes: { $size: '$votedBy' },
+          priorityScore: { $add: [{ $size: '$votedBy' }, { $ifNull: ['$upvotes', 0] }] }
+        }
+      }
+    ]);
+
+    const updated = await collection.find(filter).toArray();
+    await syncOutboxPriority(db, updated);
+    return updated;
+  } catch (error) {
+    logger.error('Erro ao registrar voto por reação:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Sugestões pendentes do tenant ordenadas por prioridade (mais votadas primeiro, depois as mais antigas)
+ */
+export async function findTopPending(tenantId: string, limit: number): Promise<VideoSuggestion[]> {
+  try {
+    const db = await connectMongo();
+    const tenantFilter = buildTenantFilter(tenantId);
+    return await db.collection<VideoSuggestion>('video_suggestions')
+      .find({ tenantId: tenantFilter, status: 'pending', ...NOT_DELETED })
+      .sort({ priorityScore: -1, createdAt: 1 })
+      .limit(limit)
+      .toArray();
+  } catch (error) {
+    logger.error('Erro ao buscar ranking de prioridade:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+export async function markAsPublished(messageId: string, session?: ClientSession, closeOutbox = true): Promise<void> {
   try {
     const db = await connectMongo();
     await db.collection('video_suggestions').updateOne(
@@ -184,8 +511,29 @@ export async function markAsPublished(messageId: string): Promise<void> {
           publishedToQueue: true,
           publishedAt: new Date()
         }
-      }
+      },
+      { session }
     );
+
+    // Sugestão adiada pelo limite foi liberada
+    const now = new Date();
+    await db.collection<VideoSuggestion>('video_suggestions').updateOne(
+      { messageId, status: 'deferred' },
+      {
+        $set: { status: 'pending', statusUpdatedAt: now },
+        $push: { statusHistory: { from: 'deferred', to: 'pending', at: now, reason: 'liberada pelo limite de sugestões' } }
+      },
+      { session }
+    );
+
+    // Encerra o registro pendente do outbox (ex.: publicado via replay)
+    if (closeOutbox) {
+      await db.collection('video_outbox').updateOne(
+        { messageId, status: { $ne: 'published' } },
+        { $set: { status: 'published', publishedAt: new Date(), lockedUntil: null } },
+        { session }
+      );
+    }
     logger.info(`✅ Vídeo marcado como publicado na fila: ${messageId}`);
   } catch (error) {
     logger.error('Erro ao marcar como publicado:', error);
@@ -193,6 +541,353 @@ export async function markAsPublished(messageId: string): Promise<void> {
   }
 }
 
+/**
+ * Busca a sugestão pelo messageId
+ */
+export async function findByMessageId(messageId: string): Promise<VideoSuggestion | null> {
+  try {
+    const db = await connectMongo();
+    return await db.collection<VideoSuggestion>('video_suggestions').findOne({ messageId });
+  } catch (error) {
+    logger.error('Erro ao buscar por messageId:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Sugestões geradas pela mesma mensagem do WhatsApp (um item por link)
+ */
+export async function findBySourceMessage(chatId: string, sourceMessageId: string): Promise<VideoSuggestion[]> {
+  try {
+    const db = await connectMongo();
+    return await db.collection<VideoSuggestion>('video_suggestions')
+      .find({ chatId, $or: [{ sourceMessageId }, { messageId: sourceMessageId }], ...NOT_DELETED })
+      .toArray();
+  } catch (error) {
+    logger.error('Erro ao buscar sugestões da mensagem:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Grava a referência da thumbnail da sugestão
+ */
+export async function setThumbnailRef(messageId: string, thumbnailRef: string): Promise<void> {
+  try {
+    const db = await connectMongo();
+    await db.collection<VideoSuggestion>('video_suggestions').updateOne(
+      { messageId },
+      { $set: { thumbnailRef } }
+    );
+  } catch (error) {
+    logger.error('Erro ao gravar thumbnail:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Sugestões de um grupo criadas a partir de uma data, em ordem de chegada
+ */
+export async function findSuggestionsByChatSince(chatId: string, since: Date, limit = 0): Promise<VideoSuggestion[]> {
+  try {
+    const db = await connectMongo();
+    const cursor = db.collection<VideoSuggestion>('video_suggestions')
+      .find({ chatId, createdAt: { $gte: since }, ...NOT_DELETED })
+      .sort({ createdAt: 1 });
+    if (limit > 0) {
+      cursor.limit(limit);
+    }
+    return await cursor.toArray();
+  } catch (error) {
+    logger.error('Erro ao buscar sugestões do grupo:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Lista sugestões (mais recentes primeiro) com paginação; ignora as removidas
+ */
+export async function listSuggestions(
+  filter: SuggestionListFilter,
+  page: number,
+  pageSize: number
+): Promise<{ items: VideoSuggestion[]; total: number }> {
+  try {
+    const db = await connectMongo();
+    const query: Filter<VideoSuggestion> = { ...NOT_DELETED };
+
+    if (filter.status?.length) {
+      query.status = { $in: filter.status };
+    }
+    if (filter.platform?.length) {
+      query.platform = { $in: filter.platform };
+    }
+    if (filter.suggester) {
+      query.$or = [{ sugeridoPorJid: filter.suggester }, { sugeridoPor: filter.suggester }];
+    }
+    if (filter.chatId) {
+      query.chatId = filter.chatId;
+    }
+    if (filter.tag) {
+      query.tags = filter.tag;
+    }
+    if (filter.from || filter.to) {
+      query.createdAt = {
+        ...(filter.from ? { $gte: filter.from } : {}),
+        ...(filter.to ? { $lt: filter.to } : {}),
+      };
+    }
+
+    const collection = db.collection<VideoSuggestion>('video_suggestions');
+    const [items, total] = await Promise.all([
+      collection.find(query).sort({ createdAt: -1 }).skip((page - 1) * pageSize).limit(pageSize).toArray(),
+      collection.countDocuments(query),
+    ]);
+    return { items, total };
+  } catch (error) {
+    logger.error('Erro ao listar sugestões:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Sugestões criadas por dia (YYYY-MM-DD no fuso informado) a partir de uma data; ignora as removidas
+ */
+export async function countSuggestionsPerDay(since: Date, timezone: string): Promise<Array<{ day: string; count: number }>> {
+  try {
+    const db = await connectMongo();
+    const rows = await db.collection<VideoSuggestion>('video_suggestions').aggregate<{ _id: string; count: number }>([
+      { $match: { createdAt: { $gte: since }, ...NOT_DELETED } },
+      { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone } }, count: { $sum: 1 } } },
+      { $sort: { _id: 1 } },
+    ]).toArray();
+    return rows.map(row => ({ day: row._id, count: row.count }));
+  } catch (error) {
+    logger.error('Erro ao contar sugestões por dia:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Substitui as tags da sugestão; retorna a sugestão atualizada
+ */
+export async function setSuggestionTags(messageId: string, tags: string[]): Promise<VideoSuggestion | null> {
+  try {
+    const db = await connectMongo();
+    return await db.collection<VideoSuggestion>('video_suggestions').findOneAndUpdate(
+      { messageId, ...NOT_DELETED },
+      { $set: { tags } },
+      { returnDocument: 'after' }
+    );
+  } catch (error) {
+    logger.error('Erro ao gravar tags:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Remove a sugestão logicamente e cancela a publicação que ainda estiver pendente no outbox
+ * Retorna false se a sugestão não existe ou já foi removida
+ */
+export async function softDeleteSuggestion(messageId: string): Promise<boolean> {
+  return withTransaction(async (db, session) => {
+    const result = await db.collection<VideoSuggestion>('video_suggestions').updateOne(
+      { messageId, ...NOT_DELETED },
+      { $set: { deletedAt: new Date() } },
+      { session }
+    );
+    if (result.modifiedCount === 0) {
+      return false;
+    }
+
+    await db.collection<OutboxEntry>('video_outbox').updateOne(
+      { messageId, status: 'pending' },
+      { $set: { status: 'failed', lockedUntil: null, lastError: OUTBOX_DELETED_ERROR } },
+      { session }
+    );
+    logger.info(`🗑️ Sugestão removida: ${messageId}`);
+    return true;
+  });
+}
+
+/**
+ * Troca o status apenas se ele ainda for o esperado (evita corrida entre eventos)
+ * Registra a transição no statusHistory; retorna o documento atualizado ou null
+ */
+export async function updateSuggestionStatus(
+  messageId: string,
+  transition: StatusTransition,
+  fields: Partial<Pick<VideoSuggestion, 'output' | 'failureReason' | 'iaProcess'>> = {}
+): Promise<VideoSuggestion | null> {
+  try {
+    const db = await connectMongo();
+    return await db.collection<VideoSuggestion>('video_suggestions').findOneAndUpdate(
+      { messageId, status: transition.from },
+      {
+        $set: { ...fields, status: transition.to, statusUpdatedAt: transition.at },
+        $push: { statusHistory: transition }
+      },
+      { returnDocument: 'after' }
+    );
+  } catch (error) {
+    logger.error('Erro ao atualizar status:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Reserva o próximo registro pendente do outbox cujo horário de tentativa já chegou
+ * O lock evita que duas drenagens publiquem o mesmo registro ao mesmo tempo
+ */
+export async function claimOutboxEntry(lockMs: number, messageId?: string): Promise<OutboxEntry | null> {
+  try {
+    const db = await connectMongo();
+    const now = new Date();
+
+    const filter: any = {
+      status: 'pending',
+      nextAttemptAt: { $lte: now },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }]
+    };
+    if (messageId) {
+      filter.messageId = messageId;
+    }
+
+    return await db.collection<OutboxEntry>('video_outbox').findOneAndUpdate(
+      filter,
+      { $set: { lockedUntil: new Date(now.getTime() + lockMs) } },
+      { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+    );
+  } catch (error) {
+    logger.error('Erro ao reservar registro do outbox:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Conclui o registro do outbox e marca a sugestão como publicada na mesma transação
+ * Deve ser chamado apenas depois da confirmação do broker
+ * Se a sugestão foi republicada no meio do caminho (revision mudou), o registro segue pendente
+ */
+export async function completeOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withTransaction(async (db, session) => {
+    await db.collection<OutboxEntry>('video_outbox').updateOne(
+      { _id: entry._id, revision: entry.revision ?? { $exists: false } },
+      {
+        $set: { status: 'published', publishedAt: new Date(), lockedUntil: null },
+        $inc: { attempts: 1 }
+      },
+      { session }
+    );
+    // O registro já foi tratado acima (respeitando a revision)
+    await markAsPublished(entry.messageId, session, false);
+  });
+}
+
+/**
+ * Recoloca a sugestão no outbox com o envelope atualizado (republicação)
+ * Cria o registro se ele não existir (sugestões anteriores ao outbox)
+ * nextAttemptAt null mantém o horário já agendado (ex.: sugestão adiada pelo limite)
+ */
+export async function requeueOutboxEntry(
+  messageId: string,
+  queue: string,
+  payload: VideoSuggestionEnvelope,
+  nextAttemptAt: Date | null = new Date()
+): Promise<void> {
+  try {
+    const db = await connectMongo();
+    const now = new Date();
+    await db.collection<OutboxEntry>('video_outbox').updateOne(
+      { messageId },
+      {
+        $set: {
+          payload,
+          queue,
+          status: 'pending',
+          attempts: 0,
+          lockedUntil: null,
+          ...(nextAttemptAt ? { nextAttemptAt } : {})
+        },
+        $unset: { lastError: '' },
+        $inc: { revision: 1 },
+        $setOnInsert: { createdAt: now, ...(nextAttemptAt ? {} : { nextAttemptAt: now }) }
+      },
+      { upsert: true }
+    );
+  } catch (error) {
+    logger.error('Erro ao recolocar sugestão no outbox:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Leva a metadata atual para o envelope que ainda não saiu do outbox
+ * Retorna false se a sugestão já foi publicada (a metadata fica só no MongoDB)
+ */
+export async function setPendingOutboxMetadata(messageId: string, metadata: Record<string, string>): Promise<boolean> {
+  try {
+    const db = await connectMongo();
+    const result = await db.collection<OutboxEntry>('video_outbox').updateOne(
+      { messageId, status: 'pending' },
+      { $set: { 'payload.data.metadata': metadata } }
+    );
+    return result.matchedCount > 0;
+  } catch (error) {
+    logger.error('Erro ao atualizar metadata no outbox:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Grava um campo de metadata escolhido no menu; retorna a sugestão atualizada
+ */
+export async function setSuggestionMetadata(messageId: string, field: string, value: string): Promise<VideoSuggestion | null> {
+  try {
+    const db = await connectMongo();
+    return await db.collection<VideoSuggestion>('video_suggestions').findOneAndUpdate(
+      { messageId },
+      { $set: { [`metadata.${field}`]: value } },
+      { returnDocument: 'after' }
+    );
+  } catch (error) {
+    logger.error('Erro ao gravar metadata:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Registra a falha de publicação e agenda a próxima tentativa (ou desiste)
+ */
+export async function failOutboxEntry(entry: OutboxEntry, errorMessage: string, nextAttemptAt: Date | null): Promise<void> {
+  try {
+    const db = await connectMongo();
+    await db.collection<OutboxEntry>('video_outbox').updateOne(
+      { _id: entry._id, revision: entry.revision ?? { $exists: false } },
+      {
+        $set: {
+          status: nextAttemptAt ? 'pending' : 'failed',
+          nextAttemptAt: nextAttemptAt || entry.nextAttemptAt,
+          lockedUntil: null,
+          lastError: errorMessage
+        },
+        $inc: { attempts: 1 }
+      }
+    );
+  } catch (error) {
+    logger.error('Erro ao registrar falha no outbox:', getMongoErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Verifica se o MongoDB responde (uma tentativa, sem espera entre tentativas)
+ */
+export async function pingMongo(): Promise<void> {
+  await connectMongo(1, 0);
+  await client!.db('admin').admin().ping();
+}
+
 export async function findById(id: string | ObjectId): Promise<VideoSuggestion | null> {
   try {
     const db = await connectMongo();
@@ -0,0 +1,260 @@
+import type { ObjectId } from 'mongodb';
+import type { WhatsappSocket } from '../types';
+import type { QuietHours } from '../config/groups.config';
+import { NOTIFICATION_CONFIG } from '../config/notification.config';
+import { VideoSuggestion, connectMongo, findByMessageId } from './mongodb.service';
+import { getGroupConfig, getQuietHours } from './group-registry.service';
+import { getActiveSocket } from './whatsapp.service';
+import { getJidUser } from './roles.service';
+import { buildSuggestionPreview } from './thumbnail.service';
+import { loadQuotedSuggestion } from './message-store.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Notification');
+
+/**
+ * Aviso de vídeo pronto aguardando envio (janela de agrupamento ou horário de silêncio)
+ */
+interface PendingNotification {
+  chatId: string;
+  messageId: string;
+  tenantId?: string;
+  notifyAfter: Date;
+  createdAt: Date;
+  _id?: ObjectId;
+}
+
+let flushTimer: NodeJS.Timeout | null = null;
+let isFlushing = false;
+
+/**
+ * Verifica se o horário atual está dentro do silêncio do grupo
+ * start === end é tratado como silêncio desativado
+ */
+export function isWithinQuietHours(quiet: QuietHours, now = new Date()): boolean {
+  if (quiet.start === quiet.end) {
+    return false;
+  }
+
+  let hour: number;
+  try {
+    hour = parseInt(
+      new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: quiet.timezone }).format(now),
+      10
+    );
+  } catch (error) {
+    logger.warn(`⚠️ Fuso horário inválido no silêncio do grupo: ${quiet.timezone}`);
+    return false;
+  }
+
+  return quiet.start < quiet.end
+    ? hour >= quiet.start && hour < quiet.end
+    : hour >= quiet.start || hour < quiet.end;
+}
+
+function getResultUrl(suggestion: VideoSuggestion): string | undefined {
+  const url = suggestion.output?.resultUrl;
+  return typeof url === 'string' && /^https?:\/\//i.test(url) ? url : undefined;
+}
+
+function getCaption(suggestion: VideoSuggestion): string | undefined {
+  const caption = suggestion.output?.caption;
+  if (typeof caption !== 'string' || caption.trim() === '') {
+    return undefined;
+  }
+
+  const max = NOTIFICATION_CONFIG.captionMaxLength;
+  const text = caption.trim();
+  return text.length > max ? `${text.substring(0, max - 1)}…` : text;
+}
+
+// "@5519999999999" quando há JID (vira menção), senão o nome exibido
+function getSuggesterLabel(suggestion: VideoSuggestion): string {
+  return suggestion.sugeridoPorJid ? `@${getJidUser(suggestion.sugeridoPorJid)}` : suggestion.sugeridoPor;
+}
+
+/**
+ * Texto do aviso individual de vídeo pronto
+ */
+export function formatCompletionMessage(suggestion: VideoSuggestion): string {
+  const lines = [`✅ ${getSuggesterLabel(suggestion)}, seu vídeo ficou pronto!`];
+
+  const caption = getCaption(suggestion);
+  if (caption) {
+    lines.push('', caption);
+  }
+
+  const resultUrl = getResultUrl(suggestion);
+  if (resultUrl) {
+    lines.push('', `🔗 ${resultUrl}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Texto do resumo com vários vídeos prontos
+ */
+export function formatDigestMessage(suggestions: VideoSuggestion[]): string {
+  const { maxDigestItems } = NOTIFICATION_CONFIG;
+  const lines = [`📬 *${suggestions.length} vídeos ficaram prontos:*`, ''];
+
+  suggestions.slice(0, maxDigestItems).forEach((suggestion, index) => {
+    const title = getCaption(suggestion)?.split('\n')[0] || suggestion.url;
+    lines.push(`${index + 1}. ${getSuggesterLabel(suggestion)} — ${title}`);
+
+    const resultUrl = getResultUrl(suggestion);
+    if (resultUrl) {
+      lines.push(`   🔗 ${resultUrl}`);
+    }
+  });
+
+  if (suggestions.length > maxDigestItems) {
+    lines.push('', `… e mais ${suggestions.length - maxDigestItems}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Responde a mensagem original com o resultado (prévia em imagem quando a sugestão tem thumbnail)
+ */
+async function sendCompletionReply(sock: WhatsappSocket, suggestion: VideoSuggestion): Promise<void> {
+  const text = formatCompletionMessage(suggestion);
+  const mentions = suggestion.sugeridoPorJid ? [suggestion.sugeridoPorJid] : [];
+  const quoted = await loadQuotedSuggestion(suggestion);
+  const preview = await buildSuggestionPreview(suggestion);
+
+  if (preview) {
+    await sock.sendMessage(suggestion.chatId, { image: preview, caption: text, mentions }, { quoted });
+  } else {
+    await sock.sendMessage(suggestion.chatId, { text, mentions }, { quoted });
+  }
+
+  logger.success(`✅ Aviso de vídeo pronto enviado: ${suggestion.messageId}`);
+}
+
+async function sendDigest(sock: WhatsappSocket, chatId: string, suggestions: VideoSuggestion[]): Promise<void> {
+  const mentions = [...new Set(
+    suggestions.map(s => s.sugeridoPorJid).filter((jid): jid is string => !!jid)
+  )];
+
+  await sock.sendMessage(chatId, { text: formatDigestMessage(suggestions), mentions });
+  logger.success(`✅ Resumo com ${suggestions.length} vídeo(s) pronto(s) enviado para ${chatId}`);
+}
+
+/**
+ * Agenda o aviso de vídeo pronto para quem sugeriu
+ * Falhas são apenas logadas para não devolver o evento do worker à fila
+ */
+export async function enqueueCompletionNotification(suggestion: VideoSuggestion): Promise<void> {
+  if (!NOTIFICATION_CONFIG.enabled) {
+    return;
+  }
+
+  try {
+    const db = await connectMongo();
+    const now = new Date();
+    await db.collection<PendingNotification>('pending_notifications').updateOne(
+      { messageId: suggestion.messageId },
+      {
+        $setOnInsert: {
+          chatId: suggestion.chatId,
+          messageId: suggestion.messageId,
+          tenantId: suggestion.tenantId ?? undefined,
+          notifyAfter: new Date(now.getTime() + NOTIFICATION_CONFIG.batchWindowMs),
+          createdAt: now,
+        }
+      },
+      { upsert: true }
+    );
+    logger.info(`📬 Aviso de vídeo pronto agendado: ${suggestion.messageId}`);
+  } catch (error: any) {
+    logger.error(`Erro ao agendar aviso de ${suggestion.messageId}: ${error.message}`);
+  }
+}
+
+/**
+ * Envia os avisos pendentes dos grupos fora do horário de silêncio
+ * Um aviso vira resposta citando a sugestão; vários viram um único resumo
+ */
+export async function flushPendingNotifications(): Promise<number> {
+  const sock = getActiveSocket();
+  if (isFlushing || !sock) {
+    return 0;
+  }
+
+  isFlushing = true;
+  let sent = 0;
+
+  try {
+    const db = await connectMongo();
+    const collection = db.collection<PendingNotification>('pending_notifications');
+    const chatIds = await collection.distinct('chatId', { notifyAfter: { $lte: new Date() } });
+
+    for (const chatId of chatIds) {
+      const pending = await collection.find({ chatId }).sort({ createdAt: 1 }).toArray();
+      const ids = pending.map(p => p._id!);
+
+      // Grupo removido do registro: descarta os avisos
+      const group = await getGroupConfig(chatId);
+      if (!group) {
+        await collection.deleteMany({ _id: { $in: ids } });
+        continue;
+      }
+
+      const quiet = getQuietHours(group);
+      if (quiet && isWithinQuietHours(quiet)) {
+        continue;
+      }
+
+      const suggestions = (await Promise.all(pending.map(p => findByMessageId(p.messageId))))
+        .filter((s): s is VideoSuggestion => !!s);
+
+      try {
+        if (suggestions.length === 1) {
+          await sendCompletionReply(sock, suggestions[0]);
+        } else if (suggestions.length > 1) {
+          await sendDigest(sock, chatId, suggestions);
+        }
+        await collection.deleteMany({ _id: { $in: ids } });
+        sent += suggestions.length;
+      } catch (error: any) {
+        // Mantém os pendentes para a próxima rodada
+        logger.error(`🔴 [WHATSAPP] Erro ao enviar avisos para ${chatId}: ${error.message}`);
+      }
+    }
+  } catch (error: any) {
+    logger.error(`Erro ao enviar avisos pendentes: ${error.message}`);
+  } finally {
+    isFlushing = false;
+  }
+
+  return sent;
+}
+
+/**
+ * Inicia o envio periódico dos avisos pendentes
+ */
+export function startNotificationFlusher(): void {
+  if (flushTimer || !NOTIFICATION_CONFIG.enabled) {
+    return;
+  }
+
+  flushTimer = setInterval(() => {
+    flushPendingNotifications();
+  }, NOTIFICATION_CONFIG.flushIntervalMs);
+
+  logger.info(`📬 Envio de avisos iniciado (intervalo ${NOTIFICATION_CONFIG.flushIntervalMs}ms)`);
+}
+
+/**
+ * Para o envio periódico dos avisos
+ */
+export function stopNotificationFlusher(): void {
+  if (flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+    logger.info('Envio de avisos parado');
+  }
+}
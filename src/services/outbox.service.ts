@@ -0,0 +1,166 @@
+import { OUTBOX_CONFIG } from '../config/outbox.config';
+import {
+  OutboxEntry,
+  claimOutboxEntry,
+  completeOutboxEntry,
+  failOutboxEntry,
+  requeueOutboxEntry,
+  VideoSuggestion,
+} from './mongodb.service';
+import { getGroupConfig } from './group-registry.service';
+import { RABBITMQ_CONFIG } from '../config/rabbitmq.config';
+import { buildVideoSuggestionEnvelope } from '../utils/envelope.utils';
+import { publishVideoSuggestion } from './rabbitMQ.service';
+import { incrementCounter, METRICS } from './metrics.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Outbox');
+
+let relayTimer: NodeJS.Timeout | null = null;
+let isDraining = false;
+
+// Delay com backoff exponencial baseado no número de tentativas já feitas
+function getRetryDelay(attempts: number): number {
+  const { initialDelay, maxDelay, backoffMultiplier } = OUTBOX_CONFIG.retry;
+  return Math.min(initialDelay * Math.pow(backoffMultiplier, attempts), maxDelay);
+}
+
+/**
+ * Publica um registro reservado do outbox e atualiza seu estado
+ * A sugestão só é marcada como publicada depois do ack do broker
+ *
+ * Entrega é at-least-once: se o MongoDB falhar entre o ack e a baixa, o registro continua
+ * reservado e volta a ser publicado quando a reserva (lockMs) expirar. Os consumidores
+ * devem deduplicar pelo messageId da mensagem AMQP (igual ao correlationId do envelope)
+ */
+async function relayEntry(entry: OutboxEntry): Promise<void> {
+  // Registros gravados antes do priorityScore entrar no envelope
+  const payload = { ...entry.payload, data: { ...entry.payload.data, priorityScore: entry.payload.data.priorityScore ?? 0 } };
+
+  try {
+    await publishVideoSuggestion(payload, entry.queue);
+  } catch (error: any) {
+    const errorMsg = error.message || error.toString();
+    const attempts = entry.attempts + 1;
+    incrementCounter(METRICS.publishFailures, { queue: entry.queue });
+    const giveUp = attempts >= OUTBOX_CONFIG.maxAttempts;
+    const nextAttemptAt = giveUp ? null : new Date(Date.now() + getRetryDelay(entry.attempts));
+
+    await failOutboxEntry(entry, errorMsg, nextAttemptAt);
+
+    if (giveUp) {
+      logger.error(`❌ Outbox desistiu de ${entry.messageId} após ${attempts} tentativas (use o replay)`);
+    } else {
+      logger.warn(`⚠️ Falha ao publicar ${entry.messageId} (tentativa ${attempts}), nova tentativa às ${nextAttemptAt!.toLocaleTimeString('pt-BR')}`);
+    }
+    throw error;
+  }
+
+  try {
+    await completeOutboxEntry(entry);
+  } catch (error: any) {
+    // A mensagem já está na fila: não conta como falha de publicação nem gasta tentativa
+    incrementCounter(METRICS.outboxUnconfirmed, { queue: entry.queue });
+    logger.error(
+      `🟠 ${entry.messageId} publicado e confirmado pelo broker, mas sem baixa no outbox: ${error.message}. ` +
+      `Será publicado de novo em até ${OUTBOX_CONFIG.lockMs / 1000}s (consumidores deduplicam pelo messageId)`
+    );
+    return;
+  }
+
+  logger.success(`✅ Outbox publicado e confirmado: ${entry.messageId}`);
+}
+
+/**
+ * Tenta publicar imediatamente o registro de uma sugestão recém-salva
+ * Retorna false se não havia registro pendente (ex.: já publicado)
+ */
+export async function publishFromOutbox(messageId: string): Promise<boolean> {
+  const entry = await claimOutboxEntry(OUTBOX_CONFIG.lockMs, messageId);
+  if (!entry) {
+    return false;
+  }
+
+  await relayEntry(entry);
+  return true;
+}
+
+/**
+ * Recoloca a sugestão no outbox com o envelope atual e tenta publicar na hora
+ * Retorna false se a publicação ficou para o relay (broker indisponível)
+ */
+export async function republishSuggestion(suggestion: VideoSuggestion): Promise<boolean> {
+  const group = await getGroupConfig(suggestion.chatId);
+  const queue = group?.queue || RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS;
+  await requeueOutboxEntry(suggestion.messageId, queue, buildVideoSuggestionEnvelope(suggestion));
+
+  try {
+    return await publishFromOutbox(suggestion.messageId);
+  } catch (error: any) {
+    // Segue pendente no outbox; o relay tenta novamente
+    logger.warn(`⚠️ Republicação de ${suggestion.messageId} adiada: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Drena os registros pendentes cujo horário de tentativa já chegou
+ */
+export async function drainOutbox(): Promise<number> {
+  if (isDraining) {
+    return 0;
+  }
+
+  isDraining = true;
+  let published = 0;
+
+  try {
+    for (let i = 0; i < OUTBOX_CONFIG.batchSize; i++) {
+      const entry = await claimOutboxEntry(OUTBOX_CONFIG.lockMs);
+      if (!entry) break;
+
+      try {
+        await relayEntry(entry);
+        published++;
+      } catch (error) {
+        // relayEntry só lança quando o broker recusou: falha já registrada no outbox (ou logada), segue para o próximo
+      }
+    }
+  } catch (error: any) {
+    logger.error(`Erro ao drenar outbox: ${error.message}`);
+  } finally {
+    isDraining = false;
+  }
+
+  if (published > 0) {
+    logger.info(`📤 Outbox drenado: ${published} mensagem(ns) publicada(s)`);
+  }
+
+  return published;
+}
+
+/**
+ * Inicia o relay em background que drena o outbox periodicamente
+ */
+export function startOutboxRelay(): void {
+  if (relayTimer) {
+    return;
+  }
+
+  relayTimer = setInterval(() => {
+    drainOutbox();
+  }, OUTBOX_CONFIG.pollIntervalMs);
+
+  logger.info(`🔁 Relay do outbox iniciado (intervalo ${OUTBOX_CONFIG.pollIntervalMs}ms)`);
+}
+
+/**
+ * Para o relay do outbox
+ */
+export function stopOutboxRelay(): void {
+  if (relayTimer) {
+    clearInterval(relayTimer);
+    relayTimer = null;
+    logger.info('Relay do outbox parado');
+  }
+}
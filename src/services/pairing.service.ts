@@ -0,0 +1,39 @@
+import QRCode from 'qrcode';
+import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
+
+// Margem em módulos exigida pelos leitores e correção de erro média (a mesma do terminal)
+const QR_OPTIONS = { margin: 4, errorCorrectionLevel: 'M' } as const;
+
+let latestQr: { code: string; receivedAt: Date } | null = null;
+
+/**
+ * Guarda o último QR emitido pelo Baileys (substitui o anterior)
+ */
+export function setLatestQr(code: string): void {
+  latestQr = { code, receivedAt: new Date() };
+}
+
+/**
+ * Descarta o QR (conectou, ou a sessão foi reiniciada)
+ */
+export function clearLatestQr(): void {
+  latestQr = null;
+}
+
+export function getLatestQr(): { code: string; receivedAt: Date } | null {
+  return latestQr;
+}
+
+/**
+ * QR em SVG (escala com a página)
+ */
+export async function renderQrSvg(code: string): Promise<string> {
+  return QRCode.toString(code, { ...QR_OPTIONS, type: 'svg' });
+}
+
+/**
+ * QR em PNG no tamanho configurado
+ */
+export async function renderQrPng(code: string): Promise<Buffer> {
+  return QRCode.toBuffer(code, { ...QR_OPTIONS, type: 'png', width: WHATSAPP_CONFIG.pairing.qrPngSize });
+}
@@ -0,0 +1,171 @@
+import type { WAMessage } from '@whiskeysockets/baileys';
+import type { WhatsappSocket } from '../types';
+import { MENU_CONFIG, MenuDefinition, MenuOption } from '../config/menu.config';
+import {
+  VideoSuggestion,
+  connectMongo,
+  setPendingOutboxMetadata,
+  setSuggestionMetadata,
+} from './mongodb.service';
+import { extractButtonReplyId, sendMessage } from '../utils/whatsapp.utils';
+import { loadQuotedSuggestion } from './message-store.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('QuickReply');
+
+// ID dos botões: menu|<messageId da sugestão>|<campo>|<opção>
+const BUTTON_PREFIX = 'menu';
+const BUTTON_SEPARATOR = '|';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Menu enviado no grupo, para resolver respostas numeradas (citando o menu)
+ */
+interface SuggestionMenu {
+  chatId: string;
+  menuMessageId: string;
+  suggestionMessageId: string;
+  field: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Escolha feita num menu (botão ou número)
+ */
+export interface MenuSelection {
+  suggestionMessageId: string;
+  menu: MenuDefinition;
+  option: MenuOption;
+}
+
+function findMenu(field: string): MenuDefinition | undefined {
+  return MENU_CONFIG.menus.find(menu => menu.field === field);
+}
+
+export function buildMenuButtonId(suggestionMessageId: string, field: string, optionId: string): string {
+  return [BUTTON_PREFIX, suggestionMessageId, field, optionId].join(BUTTON_SEPARATOR);
+}
+
+/**
+ * Lê o ID do botão; retorna null se não for de um menu conhecido
+ */
+export function parseMenuButtonId(buttonId: string): MenuSelection | null {
+  const [prefix, suggestionMessageId, field, optionId] = buttonId.split(BUTTON_SEPARATOR);
+  if (prefix !== BUTTON_PREFIX || !suggestionMessageId) {
+    return null;
+  }
+
+  const menu = findMenu(field);
+  const option = menu?.options.find(o => o.id === optionId);
+  return menu && option ? { suggestionMessageId, menu, option } : null;
+}
+
+// Texto do menu com as opções numeradas (fallback para clientes sem botões)
+function formatMenuText(menu: MenuDefinition, suggestion: VideoSuggestion): string {
+  const lines = [`*${menu.title}* da sugestão de ${suggestion.sugeridoPor}:`, ''];
+  menu.options.forEach((option, index) => lines.push(`${index + 1}. ${option.label}`));
+  lines.push('', '_Sem botões? Responda esta mensagem com o número da opção._');
+  return lines.join('\n');
+}
+
+/**
+ * Envia os menus de resposta rápida para uma sugestão recém-salva
+ * Falhas são apenas logadas: a sugestão segue normalmente sem metadata
+ */
+export async function sendSuggestionMenus(sock: WhatsappSocket, suggestion: VideoSuggestion): Promise<void> {
+  if (!MENU_CONFIG.enabled) {
+    return;
+  }
+
+  const quoted = await loadQuotedSuggestion(suggestion);
+
+  for (const menu of MENU_CONFIG.menus) {
+    try {
+      const sent = await sendMessage(
+        sock,
+        suggestion.chatId,
+        formatMenuText(menu, suggestion),
+        menu.options.map(option => ({
+          id: buildMenuButtonId(suggestion.messageId, menu.field, option.id),
+          text: option.label
+        })),
+        menu.title,
+        { quoted }
+      );
+
+      if (sent?.key.id) {
+        const now = new Date();
+        const db = await connectMongo();
+        await db.collection<SuggestionMenu>('suggestion_menus').insertOne({
+          chatId: suggestion.chatId,
+          menuMessageId: sent.key.id,
+          suggestionMessageId: suggestion.messageId,
+          field: menu.field,
+          createdAt: now,
+          expiresAt: new Date(now.getTime() + MENU_CONFIG.ttlDays * DAY_MS),
+        });
+      }
+    } catch (error: any) {
+      logger.error(`🔴 [WHATSAPP] Erro ao enviar menu ${menu.field} de ${suggestion.messageId}: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Reconhece a escolha de um menu na mensagem recebida
+ * - Botão (buttonsResponseMessage / interactiveResponseMessage)
+ * - Texto com o número da opção citando a mensagem do menu
+ */
+export async function parseMenuSelection(msg: WAMessage): Promise<MenuSelection | null> {
+  const buttonId = extractButtonReplyId(msg.message);
+  if (buttonId) {
+    return parseMenuButtonId(buttonId);
+  }
+
+  const reply = msg.message?.extendedTextMessage;
+  const quotedId = reply?.contextInfo?.stanzaId;
+  const match = reply?.text?.trim().match(/^(\d{1,2})$/);
+  if (!quotedId || !match || !msg.key.remoteJid) {
+    return null;
+  }
+
+  const db = await connectMongo();
+  const stored = await db.collection<SuggestionMenu>('suggestion_menus').findOne({
+    chatId: msg.key.remoteJid,
+    menuMessageId: quotedId,
+    expiresAt: { $gt: new Date() }
+  });
+  if (!stored) {
+    return null;
+  }
+
+  const menu = findMenu(stored.field);
+  const option = menu?.options[parseInt(match[1], 10) - 1];
+  return menu && option ? { suggestionMessageId: stored.suggestionMessageId, menu, option } : null;
+}
+
+/**
+ * Salva a escolha na sugestão e, se ela ainda não saiu do outbox, no envelope que será publicado
+ * Não republica: outra mensagem com o mesmo messageId seria descartada pela deduplicação dos
+ * workers (ou processaria o vídeo de novo). Depois da publicação, os workers leem a metadata no MongoDB
+ */
+export async function applyMenuSelection(selection: MenuSelection): Promise<VideoSuggestion | null> {
+  const suggestion = await setSuggestionMetadata(
+    selection.suggestionMessageId,
+    selection.menu.field,
+    selection.option.id
+  );
+  if (!suggestion) {
+    return null;
+  }
+
+  logger.info(`🏷️ ${suggestion.messageId}: ${selection.menu.field} = ${selection.option.id}`);
+
+  if (suggestion.metadata && await setPendingOutboxMetadata(suggestion.messageId, suggestion.metadata)) {
+    logger.info(`🏷️ Metadata de ${suggestion.messageId} incluída no envelope ainda não publicado`);
+  }
+
+  return suggestion;
+}
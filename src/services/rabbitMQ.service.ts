@@ -1,28 +1,154 @@
 import amqp from 'amqplib';
 import { QUEUE_CONFIG, RABBITMQ_CONFIG } from '../config/rabbitmq.config';
 import { createLogger } from '../utils/logger.utils';
+import { assertValidEnvelope, getEnvelopePublishOptions } from '../utils/envelope.utils';
+import type { VideoSuggestionEnvelope } from '../types';
 
 interface RabbitMQConnection {
   connection: amqp.ChannelModel;
-  channel: amqp.Channel;
+  channel: amqp.Channel | amqp.ConfirmChannel;
+  confirmMode: boolean;
 }
 
+// Publicação aguardando espaço no buffer de escrita do canal
+interface PendingPublish {
+  queue: string;
+  content: Buffer;
+  options: amqp.Options.Publish;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  settled: boolean;
+}
+
+/**
+ * Nomes dos erros lançados pelo serviço, para o chamador distinguir as falhas
+ */
+export const RABBITMQ_ERRORS = {
+  CONNECTION: 'RabbitMQConnectionError',
+  PUBLISH_TIMEOUT: 'RabbitMQPublishTimeoutError',
+  NACK: 'RabbitMQNackError',
+  GENERIC: 'RabbitMQError',
+} as const;
+
 let cachedConnection: RabbitMQConnection | null = null;
 let isConnecting = false;
 let connectionRetries = 0;
 
+// Consumidor registrado: reassinado automaticamente após reconexão
+interface RegisteredConsumer {
+  queue: string;
+  prefetch: number;
+  handler: (msg: amqp.ConsumeMessage) => Promise<void>;
+}
+
+const consumers: RegisteredConsumer[] = [];
+let consumerChannel: amqp.Channel | null = null;
+let subscribedConsumers = new Set<RegisteredConsumer>(); // Assinados no canal atual
+let consumerReconnectTimer: NodeJS.Timeout | null = null;
+let isClosing = false;
+
+// Filas de grupos (além da principal) já declaradas nesta conexão
+let assertedQueues = new Set<string>();
+
+// Back-pressure: enquanto o canal não emitir 'drain', as publicações ficam aqui
+let pendingPublishes: PendingPublish[] = [];
+let waitingDrain = false;
+
 const logger = createLogger('RabbitMQ');
 
+/**
+ * Nome da fila de retry de uma fila de origem para um delay (ex.: video-suggestions.retry.10000ms)
+ * Também é a routing key no exchange de retry
+ */
+export function getRetryQueueName(delayMs: number, queue: string = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS): string {
+  return `${queue}.retry.${delayMs}ms`;
+}
+
+/**
+ * Opções de declaração da fila principal conforme o modo de dead-letter
+ * Em modo 'policy' os argumentos continuam iguais aos da fila já existente
+ */
+export function getVideoSuggestionsQueueOptions(): amqp.Options.AssertQueue {
+  if (RABBITMQ_CONFIG.deadLetterMode === 'arguments') {
+    return {
+      durable: QUEUE_CONFIG.durable,
+      arguments: {
+        'x-dead-letter-exchange': RABBITMQ_CONFIG.exchanges.DEAD_LETTER
+      }
+    };
+  }
+
+  return { durable: QUEUE_CONFIG.durable };
+}
+
+/**
+ * Declara as filas de retry de uma fila de origem: cada uma segura a mensagem pelo TTL
+ * e a devolve à própria fila de origem (não à principal)
+ */
+async function assertRetryQueues(channel: amqp.Channel, queue: string): Promise<void> {
+  for (const delayMs of RABBITMQ_CONFIG.retryDelaysMs) {
+    const retryQueue = getRetryQueueName(delayMs, queue);
+    await channel.assertQueue(retryQueue, {
+      durable: true,
+      arguments: {
+        'x-message-ttl': delayMs,
+        'x-dead-letter-exchange': '',
+        'x-dead-letter-routing-key': queue
+      }
+    });
+    await channel.bindQueue(retryQueue, RABBITMQ_CONFIG.exchanges.RETRY, retryQueue);
+  }
+}
+
+/**
+ * Declara fila principal, dead-letter exchange/DLQ e filas de retry com TTL
+ */
+export async function assertVideoSuggestionsTopology(channel: amqp.Channel): Promise<void> {
+  const mainQueue = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS;
+  const { DEAD_LETTER, RETRY } = RABBITMQ_CONFIG.exchanges;
+
+  await channel.assertQueue(mainQueue, getVideoSuggestionsQueueOptions());
+
+  // Dead-letter: mensagens rejeitadas mantêm a routing key original (nome da fila)
+  await channel.assertExchange(DEAD_LETTER, 'direct', { durable: true });
+  await channel.assertQueue(RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS_DLQ, { durable: true });
+  await channel.bindQueue(RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS_DLQ, DEAD_LETTER, mainQueue);
+
+  // Retry: filas de espera com TTL que devolvem à fila principal
+  await channel.assertExchange(RETRY, 'direct', { durable: true });
+  await assertRetryQueues(channel, mainQueue);
+
+  // Eventos dos workers: fila nova, já nasce com dead-letter para a DLQ
+  const eventsQueue = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTION_EVENTS;
+  await channel.assertQueue(eventsQueue, {
+    durable: true,
+    arguments: {
+      'x-dead-letter-exchange': DEAD_LETTER
+    }
+  });
+  await channel.bindQueue(RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS_DLQ, DEAD_LETTER, eventsQueue);
+}
+
 async function createConnection(): Promise<RabbitMQConnection> {
   const connection = await amqp.connect(RABBITMQ_CONFIG.url);
-  const channel = await connection.createChannel();
+  // Canal em modo confirm: o broker confirma (ack/nack) cada mensagem publicada
+  const confirmMode = RABBITMQ_CONFIG.publisherConfirms;
+  const channel = confirmMode
+    ? await connection.createConfirmChannel()
+    : await connection.createChannel();
+  if (!confirmMode) {
+    logger.warn('⚠️ Publisher confirms desligados: o outbox dá baixa sem ack do broker (mensagens podem se perder numa queda)');
+  }
 
   await channel.prefetch(QUEUE_CONFIG.prefetch || 1);
 
-  // Criar fila
-  await channel.assertQueue(RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS, {
-    durable: QUEUE_CONFIG.durable
-  });
+  // Criar fila principal, dead-letter exchange e filas de retry
+  await assertVideoSuggestionsTopology(channel);
+  assertedQueues = new Set([RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS]);
+
+  if (RABBITMQ_CONFIG.deadLetterMode === 'policy') {
+    logger.info(`ℹ️ Dead-letter via policy do broker (fila ${RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS} sem argumentos)`);
+  }
 
   // Configurar listeners para reconexão
   connection.on('error', (error) => {
@@ -43,9 +169,14 @@ async function createConnection(): Promise<RabbitMQConnection> {
   channel.on('close', () => {
     logger.warn('Canal fechado');
     cachedConnection = null;
+    rejectPendingPublishes('🔴 [RABBITMQ] Canal fechado antes de enviar a mensagem');
   });
 
-  return { connection, channel };
+  channel.on('drain', () => {
+    flushPendingPublishes(channel, confirmMode);
+  });
+
+  return { connection, channel, confirmMode };
 }
 
 async function getLazyConnection(): Promise<RabbitMQConnection> {
@@ -73,6 +204,15 @@ async function getLazyConnection(): Promise<RabbitMQConnection> {
     isConnecting = false;
 
     logger.success('Conectado ao RabbitMQ via Lazy Loading');
+
+    // Reassina os consumidores registrados na nova conexão
+    if (consumers.length > 0 && !consumerChannel) {
+      await startConsumers(cachedConnection.connection).catch((error) => {
+        logger.error('Erro ao iniciar consumidores:', error);
+        scheduleConsumerReconnect();
+      });
+    }
+
     return cachedConnection;
 
   } catch (error: any) {
@@ -87,7 +227,7 @@ async function getLazyConnection(): Promise<RabbitMQConnection> {
       
       // Lança erro com mensagem amigável
       const friendlyError = new Error(errorMsg);
-      friendlyError.name = 'RabbitMQConnectionError';
+      friendlyError.name = RABBITMQ_ERRORS.CONNECTION;
       throw friendlyError;
     }
 
@@ -99,6 +239,102 @@ async function getLazyConnection(): Promise<RabbitMQConnection> {
   }
 }
 
+/**
+ * Assina uma fila no canal de consumo
+ * ack quando o handler termina; nack sem requeue (vai para a DLQ) quando ele lança erro
+ */
+async function subscribe(channel: amqp.Channel, consumer: RegisteredConsumer): Promise<void> {
+  if (subscribedConsumers.has(consumer)) {
+    return;
+  }
+  subscribedConsumers.add(consumer);
+
+  await channel.prefetch(consumer.prefetch);
+  await channel.consume(consumer.queue, async (msg) => {
+    if (!msg) return; // Consumo cancelado pelo broker
+
+    try {
+      await consumer.handler(msg);
+      channel.ack(msg);
+    } catch (error: any) {
+      logger.error(`🔴 [RABBITMQ] Falha ao processar mensagem de ${consumer.queue}: ${error.message}`);
+      channel.nack(msg, false, false);
+    }
+  });
+  logger.info(`👂 Consumindo fila ${consumer.queue}`);
+}
+
+/**
+ * Cria o canal de consumo e assina todas as filas registradas
+ */
+async function startConsumers(connection: amqp.ChannelModel): Promise<void> {
+  const channel = await connection.createChannel();
+  consumerChannel = channel;
+  subscribedConsumers = new Set();
+
+  channel.on('error', (error) => {
+    logger.error('Erro no canal de consumo:', error);
+  });
+
+  channel.on('close', () => {
+    logger.warn('Canal de consumo fechado');
+    consumerChannel = null;
+    scheduleConsumerReconnect();
+  });
+
+  for (const consumer of consumers) {
+    await subscribe(channel, consumer);
+  }
+}
+
+/**
+ * Agenda a reconexão dos consumidores após queda do canal/conexão
+ */
+function scheduleConsumerReconnect(): void {
+  if (isClosing || consumerReconnectTimer || consumers.length === 0) {
+    return;
+  }
+
+  consumerReconnectTimer = setTimeout(async () => {
+    consumerReconnectTimer = null;
+    try {
+      const { connection } = await getLazyConnection();
+      if (!consumerChannel) {
+        await startConsumers(connection);
+      }
+    } catch (error: any) {
+      logger.error(`Erro ao reconectar consumidores: ${error.message}`);
+      scheduleConsumerReconnect();
+    }
+  }, RABBITMQ_CONFIG.reconnectDelay);
+}
+
+/**
+ * Registra um consumidor de fila (mantido entre reconexões)
+ */
+export async function registerConsumer(
+  queue: string,
+  handler: (msg: amqp.ConsumeMessage) => Promise<void>,
+  prefetch: number = QUEUE_CONFIG.prefetch
+): Promise<void> {
+  const consumer: RegisteredConsumer = { queue, prefetch, handler };
+  consumers.push(consumer);
+  isClosing = false;
+
+  try {
+    const { connection } = await getLazyConnection();
+    if (consumerChannel) {
+      await subscribe(consumerChannel, consumer);
+    } else {
+      await startConsumers(connection);
+    }
+  } catch (error) {
+    // Continua tentando em background até o RabbitMQ voltar
+    scheduleConsumerReconnect();
+    throw error;
+  }
+}
+
 /**
  * Identifica o tipo de erro do RabbitMQ e retorna mensagem amigável
  */
@@ -129,44 +365,196 @@ function getRabbitMQErrorMessage(error: any): string {
 }
 
 /**
- * Publica vídeo na nova fila video-suggestions (event-driven)
+ * Verifica se o erro é timeout de publicação (broker não confirmou a tempo)
+ * Diferente de falha de conexão: a mensagem pode ter chegado ao broker
  */
-export async function publishVideoSuggestion(payload: {
-  url: string;
-  texto: string;
-  sugeridoPor: string;
-  messageId: string; // ✅ OBRIGATÓRIO para rastreamento
-}): Promise<void> {
-  try {
-    // ✅ Validação: messageId é obrigatório
-    if (!payload.messageId || payload.messageId.trim() === '') {
-      throw new Error('🔴 [RABBITMQ] messageId é obrigatório para publicar na fila');
+export function isPublishTimeoutError(error: any): boolean {
+  return error?.name === RABBITMQ_ERRORS.PUBLISH_TIMEOUT;
+}
+
+function createRabbitMQError(message: string, name: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Escreve a mensagem no canal
+ * Retorna false quando o buffer de escrita encheu (aguardar 'drain')
+ */
+function writeToChannel(
+  channel: amqp.Channel | amqp.ConfirmChannel,
+  confirmMode: boolean,
+  pending: PendingPublish
+): boolean {
+  if (!confirmMode) {
+    const written = channel.sendToQueue(pending.queue, pending.content, pending.options);
+    // Sem confirms não há garantia do broker, apenas que foi entregue ao canal
+    pending.settled = true;
+    pending.resolve();
+    return written;
+  }
+
+  return (channel as amqp.ConfirmChannel).sendToQueue(
+    pending.queue,
+    pending.content,
+    pending.options,
+    (err) => {
+      if (pending.settled) return;
+      pending.settled = true;
+      if (err) {
+        pending.reject(createRabbitMQError('🔴 [RABBITMQ] Broker rejeitou a mensagem (nack)', RABBITMQ_ERRORS.NACK));
+        return;
+      }
+      pending.resolve();
     }
+  );
+}
 
-    const { channel } = await getLazyConnection();
-    const messageJson = JSON.stringify(payload);
-    const messageBuffer = Buffer.from(messageJson);
+/**
+ * Reenvia as publicações acumuladas depois do evento 'drain'
+ */
+function flushPendingPublishes(channel: amqp.Channel | amqp.ConfirmChannel, confirmMode: boolean): void {
+  waitingDrain = false;
 
-    const success = channel.sendToQueue(
-      RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS,
-      messageBuffer,
-      { persistent: QUEUE_CONFIG.persistent }
-    );
+  while (pendingPublishes.length > 0 && !waitingDrain) {
+    const pending = pendingPublishes.shift()!;
+    if (pending.settled) continue; // Já expirou por timeout
 
-    if (!success) {
-      throw new Error('🔴 [RABBITMQ] Fila cheia ou canal bloqueado - falha ao enviar mensagem');
+    if (!writeToChannel(channel, confirmMode, pending)) {
+      waitingDrain = true;
     }
+  }
 
-    logger.info(`📤 Vídeo publicado na fila video-suggestions [${payload.messageId}]: ${payload.url.substring(0, 50)}...`);
+  if (pendingPublishes.length === 0) {
+    logger.info('🚰 Buffer do canal liberado (drain)');
+  }
+}
+
+/**
+ * Rejeita as publicações acumuladas quando o canal cai
+ */
+function rejectPendingPublishes(message: string): void {
+  const pending = pendingPublishes;
+  pendingPublishes = [];
+  waitingDrain = false;
+
+  for (const item of pending) {
+    if (item.settled) continue;
+    item.settled = true;
+    item.reject(createRabbitMQError(message, RABBITMQ_ERRORS.CONNECTION));
+  }
+}
+
+/**
+ * Publica na fila respeitando back-pressure e com timeout por publicação
+ * Em modo confirm, resolve no ack e rejeita no nack do broker
+ */
+async function publishToQueue(queue: string, content: Buffer, options: amqp.Options.Publish): Promise<void> {
+  const { channel, confirmMode } = await getLazyConnection();
+  const timeoutMs = RABBITMQ_CONFIG.publishTimeoutMs;
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      if (pending.settled) return;
+      pending.settled = true;
+      reject(createRabbitMQError(
+        `🔴 [RABBITMQ] Timeout de ${timeoutMs}ms aguardando confirmação do broker`,
+        RABBITMQ_ERRORS.PUBLISH_TIMEOUT
+      ));
+    }, timeoutMs);
+
+    const pending: PendingPublish = {
+      queue,
+      content,
+      options,
+      resolve: () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      reject: (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+      settled: false,
+    };
+
+    // Canal sem espaço: aguarda 'drain' em vez de falhar
+    if (waitingDrain) {
+      pendingPublishes.push(pending);
+      return;
+    }
+
+    if (!writeToChannel(channel, confirmMode, pending)) {
+      logger.warn('⚠️ Buffer de escrita do canal cheio, aguardando drain...');
+      waitingDrain = true;
+    }
+  });
+}
+
+/**
+ * Declara a fila de destino de um grupo com os mesmos argumentos da principal
+ * e liga suas mensagens rejeitadas à DLQ
+ */
+async function ensureQueue(queue: string): Promise<void> {
+  if (assertedQueues.has(queue)) {
+    return;
+  }
+
+  const { channel } = await getLazyConnection();
+  await channel.assertQueue(queue, getVideoSuggestionsQueueOptions());
+  await channel.bindQueue(
+    RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS_DLQ,
+    RABBITMQ_CONFIG.exchanges.DEAD_LETTER,
+    queue
+  );
+  await assertRetryQueues(channel, queue);
+  assertedQueues.add(queue);
+  logger.info(`📋 Fila de grupo declarada: ${queue}`);
+
+  if (RABBITMQ_CONFIG.deadLetterMode === 'policy' && !new RegExp(RABBITMQ_CONFIG.deadLetterPolicyPattern).test(queue)) {
+    logger.warn(`⚠️ A fila ${queue} não casa com a policy de dead-letter (${RABBITMQ_CONFIG.deadLetterPolicyPattern}): mensagens rejeitadas nela serão descartadas`);
+  }
+}
+
+/**
+ * Publica o envelope da sugestão na fila do grupo (padrão: video-suggestions)
+ * O envelope é validado antes do envio; com publisher confirms, só retorna depois do ack do broker
+ */
+export async function publishVideoSuggestion(
+  envelope: VideoSuggestionEnvelope,
+  queue: string = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS
+): Promise<void> {
+  try {
+    // ✅ Validação em tempo de execução do envelope (inclui correlationId obrigatório)
+    assertValidEnvelope(envelope);
+
+    const messageBuffer = Buffer.from(JSON.stringify(envelope));
+    await ensureQueue(queue);
+
+    await publishToQueue(
+      queue,
+      messageBuffer,
+      {
+        ...getEnvelopePublishOptions(envelope),
+        persistent: QUEUE_CONFIG.persistent
+      }
+    );
+
+    logger.info(`📤 Vídeo publicado na fila ${queue} [${envelope.correlationId}]: ${envelope.data.url.substring(0, 50)}...`);
 
   } catch (error: any) {
+    // Erros já tipados são repassados como estão
+    if (Object.values(RABBITMQ_ERRORS).includes(error.name) || error.name === 'EnvelopeValidationError') {
+      logger.error(error.message);
+      throw error;
+    }
+
     const errorMsg = getRabbitMQErrorMessage(error);
     logger.error(errorMsg);
     
     // Lança erro com mensagem amigável
-    const friendlyError = new Error(errorMsg);
-    friendlyError.name = 'RabbitMQError';
-    throw friendlyError;
+    throw createRabbitMQError(errorMsg, RABBITMQ_ERRORS.GENERIC);
   }
 }
 
@@ -190,6 +578,32 @@ export async function getQueueStatus(): Promise<{
   }
 }
 
+/**
+ * Quantidade de mensagens prontas na fila (declara a fila de grupo se ainda não existir)
+ */
+export async function getQueueDepth(queue: string = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS): Promise<number> {
+  await ensureQueue(queue);
+  const { channel } = await getLazyConnection();
+  const status = await channel.checkQueue(queue);
+  return status.messageCount;
+}
+
+/**
+ * Remove todas as mensagens da fila (padrão: video-suggestions)
+ * Retorna a quantidade de mensagens removidas
+ */
+export async function purgeQueue(queue: string = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS): Promise<number> {
+  try {
+    const { channel } = await getLazyConnection();
+    const result = await channel.purgeQueue(queue);
+    logger.warn(`🗑️ Fila ${queue} limpa: ${result.messageCount} mensagem(ns) removida(s)`);
+    return result.messageCount;
+  } catch (error) {
+    logger.error(`Erro ao limpar fila ${queue}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Verifica se está conectado ao RabbitMQ
  */
@@ -201,6 +615,13 @@ export function isConnected(): boolean {
  * Fecha a conexão com RabbitMQ
  */
 export async function closeConnection(): Promise<void> {
+  // Encerramento intencional: não reassina consumidores
+  isClosing = true;
+  if (consumerReconnectTimer) {
+    clearTimeout(consumerReconnectTimer);
+    consumerReconnectTimer = null;
+  }
+
   if (cachedConnection) {
     try {
       await cachedConnection.channel.close();
@@ -0,0 +1,133 @@
+import type { GroupConfig } from '../config/groups.config';
+import type { BucketLimit } from '../config/rate-limit.config';
+import { connectMongo } from './mongodb.service';
+import { getRateLimitSettings } from './group-registry.service';
+import { getJidUser } from './roles.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('RateLimit');
+
+/**
+ * Estado de um balde de tokens (coleção rate_limits)
+ * tokens negativos = sugestões adiadas aguardando recarga
+ */
+interface RateLimitBucket {
+  _id: string;
+  tokens: number;
+  granted: boolean;
+  updatedAt: Date;
+}
+
+export type RateLimitDecision =
+  | { action: 'allow' }
+  | { action: 'defer'; releaseAt: Date }
+  | { action: 'reject'; scope: 'user' | 'group'; retryAfterMs: number };
+
+function refillRatePerMs(limit: BucketLimit): number {
+  return limit.refillPerMinute / 60000;
+}
+
+/**
+ * Recarrega o balde pelo tempo decorrido e tenta tirar um token, de forma atômica
+ * maxDebt > 0 permite o saldo ficar negativo (sugestão adiada até a recarga cobrir a dívida)
+ */
+async function takeToken(key: string, limit: BucketLimit, maxDebt: number): Promise<{ granted: boolean; waitMs: number }> {
+  const db = await connectMongo();
+  const now = new Date();
+  const ratePerMs = refillRatePerMs(limit);
+
+  const bucket = await db.collection<RateLimitBucket>('rate_limits').findOneAndUpdate(
+    { _id: key },
+    [
+      {
+        $set: {
+          tokens: {
+            $min: [
+              limit.capacity,
+              {
+                $add: [
+                  { $ifNull: ['$tokens', limit.capacity] },
+                  { $multiply: [{ $subtract: [now, { $ifNull: ['$updatedAt', now] }] }, ratePerMs] }
+                ]
+              }
+            ]
+          },
+          updatedAt: now
+        }
+      },
+      { $set: { granted: { $gte: [{ $subtract: ['$tokens', 1] }, -maxDebt] } } },
+      { $set: { tokens: { $cond: ['$granted', { $subtract: ['$tokens', 1] }, '$tokens'] } } }
+    ],
+    { upsert: true, returnDocument: 'after' }
+  );
+
+  const tokens = bucket?.tokens ?? 0;
+  if (!bucket?.granted) {
+    return { granted: false, waitMs: Math.ceil((1 - tokens) / ratePerMs) };
+  }
+  return { granted: true, waitMs: tokens < 0 ? Math.ceil(-tokens / ratePerMs) : 0 };
+}
+
+/**
+ * Devolve o token quando o outro balde negou a sugestão
+ */
+async function returnToken(key: string, limit: BucketLimit): Promise<void> {
+  const db = await connectMongo();
+  await db.collection<RateLimitBucket>('rate_limits').updateOne(
+    { _id: key },
+    [{ $set: { tokens: { $min: [limit.capacity, { $add: ['$tokens', 1] }] } } }]
+  );
+}
+
+/**
+ * Consome um token do participante e um do grupo para uma nova sugestão
+ * Admins são isentos (o chamador passa exempt = true)
+ */
+export async function checkSuggestionRateLimit(
+  group: GroupConfig,
+  senderJid: string,
+  exempt: boolean
+): Promise<RateLimitDecision> {
+  const settings = getRateLimitSettings(group);
+  if (!settings.enabled || exempt) {
+    return { action: 'allow' };
+  }
+
+  const maxDebt = settings.action === 'defer' ? settings.maxDeferred : 0;
+  const userKey = `user:${group.jid}:${getJidUser(senderJid)}`;
+  const groupKey = `group:${group.jid}`;
+
+  const user = await takeToken(userKey, settings.user, maxDebt);
+  if (!user.granted) {
+    logger.warn(`⏳ Limite por participante atingido: ${senderJid} em ${group.jid}`);
+    return { action: 'reject', scope: 'user', retryAfterMs: user.waitMs };
+  }
+
+  const groupBucket = await takeToken(groupKey, settings.group, maxDebt);
+  if (!groupBucket.granted) {
+    await returnToken(userKey, settings.user);
+    logger.warn(`⏳ Limite do grupo atingido: ${group.jid}`);
+    return { action: 'reject', scope: 'group', retryAfterMs: groupBucket.waitMs };
+  }
+
+  const waitMs = Math.max(user.waitMs, groupBucket.waitMs);
+  if (waitMs > 0) {
+    return { action: 'defer', releaseAt: new Date(Date.now() + waitMs) };
+  }
+
+  return { action: 'allow' };
+}
+
+/**
+ * Explicação enviada no privado de quem passou do limite
+ */
+export function formatRateLimitMessage(decision: Extract<RateLimitDecision, { action: 'reject' }>, groupName?: string): string {
+  const minutes = Math.max(1, Math.ceil(decision.retryAfterMs / 60000));
+  const where = groupName ? ` no grupo *${groupName}*` : '';
+
+  const reason = decision.scope === 'user'
+    ? `Você enviou muitas sugestões seguidas${where}.`
+    : `O grupo${groupName ? ` *${groupName}*` : ''} recebeu muitas sugestões em pouco tempo.`;
+
+  return `⏳ ${reason}\nSua última sugestão não foi registrada. Tente de novo em ${minutes} min.`;
+}
@@ -0,0 +1,152 @@
+import type { Filter } from 'mongodb';
+import { NOT_DELETED, OUTBOX_DELETED_ERROR, buildTenantFilter, connectMongo, markAsPublished, VideoSuggestion } from './mongodb.service';
+import { publishVideoSuggestion, getQueueDepth, purgeQueue } from './rabbitMQ.service';
+import { getGroupConfig } from './group-registry.service';
+import { RABBITMQ_CONFIG } from '../config/rabbitmq.config';
+import { buildVideoSuggestionEnvelope } from '../utils/envelope.utils';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Replay');
+
+export interface ReplayFilter {
+  limit?: number; // Sem limite quando ausente ou 0
+  notPublished?: boolean; // Apenas não publicados
+  tenantId?: string; // Apenas do tenant (comandos do grupo); todos quando ausente (scripts)
+}
+
+export interface ReplayResult {
+  total: number;
+  sent: number;
+  failed: number;
+}
+
+export interface SuggestionStats {
+  total: number;
+  published: number;
+  notPublished: number;
+  outboxPending: number;
+  outboxFailed: number;
+}
+
+/**
+ * Busca vídeos do MongoDB para reenviar (mais antigos primeiro); ignora os removidos
+ */
+export async function fetchVideosForReplay(filter: ReplayFilter): Promise<VideoSuggestion[]> {
+  const db = await connectMongo();
+  const collection = db.collection<VideoSuggestion>('video_suggestions');
+
+  const query: Filter<VideoSuggestion> = { ...NOT_DELETED };
+  if (filter.tenantId) {
+    query.tenantId = buildTenantFilter(filter.tenantId);
+  }
+  if (filter.notPublished) {
+    query.publishedToQueue = { $ne: true };
+  }
+
+  const cursor = collection.find(query).sort({ createdAt: 1 });
+  if (filter.limit && filter.limit > 0) {
+    cursor.limit(filter.limit);
+  }
+
+  return await cursor.toArray();
+}
+
+/**
+ * Reenvia um vídeo para a fila do seu grupo e marca como publicado
+ */
+export async function replayVideo(video: VideoSuggestion): Promise<boolean> {
+  try {
+    // ✅ Garantir que messageId existe (gerar fallback se necessário)
+    const messageId = video.messageId && video.messageId.trim() !== ''
+      ? video.messageId
+      : `replay_${video._id}_${Date.now()}`;
+
+    if (!video.messageId || video.messageId.trim() === '') {
+      logger.warn(`⚠️ Vídeo sem messageId, gerando fallback: ${messageId}`);
+
+      // Atualiza no MongoDB com o novo messageId
+      const db = await connectMongo();
+      await db.collection('video_suggestions').updateOne(
+        { _id: video._id },
+        { $set: { messageId: messageId } }
+      );
+    }
+
+    const group = await getGroupConfig(video.chatId);
+    const queue = group?.queue || RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS;
+
+    // Mesmo envelope das mensagens publicadas ao vivo
+    await publishVideoSuggestion(buildVideoSuggestionEnvelope({ ...video, messageId }), queue);
+
+    // Marca como publicado (e encerra o registro pendente no outbox)
+    await markAsPublished(messageId);
+
+    return true;
+  } catch (error: any) {
+    logger.error(`Erro ao enviar vídeo ${video._id}: ${error.message}`);
+    return false;
+  }
+}
+
+/**
+ * Reenvia a lista de vídeos em sequência, com pausa entre envios
+ */
+export async function replayVideos(
+  videos: VideoSuggestion[],
+  options: { delayMs?: number; onProgress?: (index: number, video: VideoSuggestion, success: boolean) => void } = {}
+): Promise<ReplayResult> {
+  const result: ReplayResult = { total: videos.length, sent: 0, failed: 0 };
+
+  for (let i = 0; i < videos.length; i++) {
+    const success = await replayVideo(videos[i]);
+    if (success) {
+      result.sent++;
+    } else {
+      result.failed++;
+    }
+    options.onProgress?.(i, videos[i], success);
+
+    // Pequena pausa entre envios
+    if (options.delayMs && i < videos.length - 1) {
+      await new Promise(resolve => setTimeout(resolve, options.delayMs));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Estatísticas das sugestões e do outbox (do tenant, se informado)
+ */
+export async function getSuggestionStats(tenantId?: string): Promise<SuggestionStats> {
+  const db = await connectMongo();
+  const suggestions = db.collection<VideoSuggestion>('video_suggestions');
+
+  // O outbox não guarda o tenant na raiz: vem do envelope
+  // Removidas não contam, nem o registro do outbox cancelado pela remoção
+  const suggestionScope = { ...NOT_DELETED, ...(tenantId ? { tenantId: buildTenantFilter(tenantId) } : {}) };
+  const outboxScope = tenantId ? { 'payload.source.tenantId': buildTenantFilter(tenantId) } : {};
+
+  const [total, published, outboxPending, outboxFailed] = await Promise.all([
+    suggestions.countDocuments(suggestionScope),
+    suggestions.countDocuments({ ...suggestionScope, publishedToQueue: true }),
+    db.collection('video_outbox').countDocuments({ ...outboxScope, status: 'pending' }),
+    db.collection('video_outbox').countDocuments({ ...outboxScope, status: 'failed', lastError: { $ne: OUTBOX_DELETED_ERROR } }),
+  ]);
+
+  return { total, published, notPublished: total - published, outboxPending, outboxFailed };
+}
+
+/**
+ * Quantidade de mensagens aguardando na fila (padrão: fila principal)
+ */
+export async function getQueueMessageCount(queue: string = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS): Promise<number> {
+  return await getQueueDepth(queue);
+}
+
+/**
+ * Limpa a fila (padrão: fila principal); os vídeos no MongoDB não são afetados
+ */
+export async function purgeSuggestionsQueue(queue: string = RABBITMQ_CONFIG.queues.VIDEO_SUGGESTIONS): Promise<number> {
+  return await purgeQueue(queue);
+}
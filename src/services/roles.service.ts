@@ -0,0 +1,111 @@
+import { ROLES_CONFIG } from '../config/roles.config';
+import type { GroupConfig } from '../config/groups.config';
+import type { CommandRole } from '../commands/command.types';
+import type { WhatsappSocket } from '../types';
+import { connectMongo } from './mongodb.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Roles');
+
+interface RoleEntry {
+  jid: string;
+  role: 'owner' | 'admin';
+  tenantId?: string;
+}
+
+let cachedMongoRoles: { entries: RoleEntry[]; loadedAt: number } | null = null;
+const groupAdminsCache = new Map<string, { admins: Set<string>; loadedAt: number }>();
+
+/**
+ * Parte do usuário do JID, sem servidor nem dispositivo
+ * "5519999999999:12@s.whatsapp.net" -> "5519999999999"
+ */
+export function getJidUser(jid: string): string {
+  return jid.split('@')[0].split(':')[0];
+}
+
+function sameUser(a: string, b: string): boolean {
+  return getJidUser(a) === getJidUser(b);
+}
+
+async function getMongoRoles(): Promise<RoleEntry[]> {
+  if (cachedMongoRoles && Date.now() - cachedMongoRoles.loadedAt < ROLES_CONFIG.cacheTtlMs) {
+    return cachedMongoRoles.entries;
+  }
+
+  try {
+    const db = await connectMongo();
+    const entries = await db.collection<RoleEntry>('bot_roles').find({}).toArray();
+    cachedMongoRoles = { entries, loadedAt: Date.now() };
+    return entries;
+  } catch (error: any) {
+    logger.error(`Erro ao carregar papéis do MongoDB: ${error.message}`);
+    return cachedMongoRoles?.entries || [];
+  }
+}
+
+/**
+ * Admins do grupo no WhatsApp (via groupMetadata), com cache
+ */
+async function getGroupAdmins(sock: Pick<WhatsappSocket, 'groupMetadata'>, groupJid: string): Promise<Set<string>> {
+  const cached = groupAdminsCache.get(groupJid);
+  if (cached && Date.now() - cached.loadedAt < ROLES_CONFIG.cacheTtlMs) {
+    return cached.admins;
+  }
+
+  try {
+    const metadata = await sock.groupMetadata(groupJid);
+    const admins = new Set<string>();
+    for (const participant of metadata.participants) {
+      if (participant.admin === 'admin' || participant.admin === 'superadmin') {
+        // Grupos com LID expõem o número em phoneNumber
+        admins.add(getJidUser(participant.id));
+        if (participant.phoneNumber) admins.add(getJidUser(participant.phoneNumber));
+      }
+    }
+    groupAdminsCache.set(groupJid, { admins, loadedAt: Date.now() });
+    return admins;
+  } catch (error: any) {
+    logger.error(`Erro ao buscar admins do grupo ${groupJid}: ${error.message}`);
+    return cached?.admins || new Set();
+  }
+}
+
+/**
+ * Papel do participante: config (.env) → MongoDB → admins do grupo → member
+ */
+export async function resolveRole(
+  senderJid: string,
+  group: GroupConfig,
+  sock?: Pick<WhatsappSocket, 'groupMetadata'>
+): Promise<CommandRole> {
+  if (ROLES_CONFIG.owners.some(owner => sameUser(owner, senderJid))) {
+    return 'owner';
+  }
+
+  let isAdmin = ROLES_CONFIG.admins.some(admin => sameUser(admin, senderJid));
+
+  if (ROLES_CONFIG.useMongoRoles) {
+    const entries = (await getMongoRoles()).filter(entry =>
+      sameUser(entry.jid, senderJid) && (!entry.tenantId || entry.tenantId === group.tenantId)
+    );
+    if (entries.some(entry => entry.role === 'owner')) {
+      return 'owner';
+    }
+    isAdmin = isAdmin || entries.some(entry => entry.role === 'admin');
+  }
+
+  if (!isAdmin && ROLES_CONFIG.syncGroupAdmins && sock) {
+    const admins = await getGroupAdmins(sock, group.jid);
+    isAdmin = admins.has(getJidUser(senderJid));
+  }
+
+  return isAdmin ? 'admin' : 'member';
+}
+
+/**
+ * Descarta os admins em cache do grupo (chamado quando alguém é promovido, rebaixado ou sai)
+ */
+export function invalidateGroupAdmins(groupJid: string): void {
+  groupAdminsCache.delete(groupJid);
+}
@@ -0,0 +1,145 @@
+import type { WAMessageKey } from '@whiskeysockets/baileys';
+import {
+  SuggestionStatus,
+  StatusTransition,
+  VideoSuggestion,
+  findByMessageId,
+  findBySourceMessage,
+  updateSuggestionStatus,
+} from './mongodb.service';
+import { getActiveSocket } from './whatsapp.service';
+import { VIDEO_CONFIG } from '../config/video.config';
+import { incrementCounter, METRICS } from './metrics.service';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Lifecycle');
+
+/**
+ * Transições válidas de status da sugestão
+ * failed → processing permite que o worker tente de novo
+ * deferred → processing cobre a publicação antecipada via replay
+ */
+export const STATUS_TRANSITIONS: Record<SuggestionStatus, SuggestionStatus[]> = {
+  deferred: ['pending', 'processing', 'failed'],
+  pending: ['processing', 'failed'],
+  processing: ['completed', 'failed'],
+  failed: ['processing'],
+  completed: [],
+};
+
+export function canTransition(from: SuggestionStatus, to: SuggestionStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+export type TransitionResult =
+  | { ok: true; suggestion: VideoSuggestion }
+  | { ok: false; reason: 'not_found' | 'invalid_transition'; current?: SuggestionStatus };
+
+/**
+ * Move a sugestão para o novo status, respeitando as transições válidas
+ * Reaplica a leitura se outro evento mudou o status no meio do caminho
+ */
+export async function transitionSuggestion(
+  messageId: string,
+  to: SuggestionStatus,
+  details: { at?: Date; reason?: string; worker?: string; output?: Record<string, any> } = {}
+): Promise<TransitionResult> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const current = await findByMessageId(messageId);
+    if (!current) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (!canTransition(current.status, to)) {
+      return { ok: false, reason: 'invalid_transition', current: current.status };
+    }
+
+    const transition: StatusTransition = {
+      from: current.status,
+      to,
+      at: details.at || new Date(),
+      ...(details.reason ? { reason: details.reason } : {}),
+      ...(details.worker ? { worker: details.worker } : {}),
+    };
+
+    const fields: Parameters<typeof updateSuggestionStatus>[2] = {};
+    if (to === 'completed') {
+      fields.output = details.output || {};
+      fields.iaProcess = true;
+    }
+    if (to === 'failed') {
+      fields.failureReason = details.reason || 'Motivo não informado';
+    }
+
+    const updated = await updateSuggestionStatus(messageId, transition, fields);
+    if (updated) {
+      logger.info(`🔀 ${messageId}: ${transition.from} → ${to}`);
+      return { ok: true, suggestion: updated };
+    }
+  }
+
+  const latest = await findByMessageId(messageId);
+  return { ok: false, reason: 'invalid_transition', current: latest?.status };
+}
+
+/**
+ * Chave da mensagem original do WhatsApp que gerou a sugestão
+ */
+export function getSuggestionMessageKey(suggestion: VideoSuggestion): WAMessageKey {
+  return {
+    remoteJid: suggestion.chatId,
+    id: suggestion.sourceMessageId || suggestion.messageId,
+    fromMe: false,
+    participant: suggestion.sugeridoPorJid,
+  };
+}
+
+// Ordem de precedência do status agregado: falha primeiro, depois o que ainda está andando
+const AGGREGATE_STATUS_ORDER: SuggestionStatus[] = ['failed', 'processing', 'pending', 'deferred', 'completed'];
+
+/**
+ * Status de uma mensagem com vários links (mesma regra da reação inicial: ❌ se algum falhou)
+ */
+export function aggregateStatus(statuses: SuggestionStatus[]): SuggestionStatus {
+  return AGGREGATE_STATUS_ORDER.find(status => statuses.includes(status)) || 'completed';
+}
+
+/**
+ * Status que a reação da mensagem original deve mostrar
+ * Todos os links da mensagem reagem na mesma chave: o evento de um não pode apagar o estado dos outros
+ */
+async function getMessageStatus(suggestion: VideoSuggestion): Promise<SuggestionStatus> {
+  if (!suggestion.sourceMessageId) {
+    return suggestion.status;
+  }
+
+  try {
+    const siblings = await findBySourceMessage(suggestion.chatId, suggestion.sourceMessageId);
+    const statuses = siblings.map(item => item.messageId === suggestion.messageId ? suggestion.status : item.status);
+    return siblings.length > 1 ? aggregateStatus(statuses) : suggestion.status;
+  } catch (error: any) {
+    logger.warn(`⚠️ Sem status agregado da mensagem de ${suggestion.messageId}, reagindo só com o dele: ${error.message}`);
+    return suggestion.status;
+  }
+}
+
+/**
+ * Reage na mensagem original com o emoji do status atual (agregado se a mensagem tiver vários links)
+ */
+export async function reactWithStatus(suggestion: VideoSuggestion): Promise<void> {
+  const sock = getActiveSocket();
+  if (!sock) {
+    logger.warn(`⚠️ WhatsApp desconectado - reação de ${suggestion.messageId} não enviada`);
+    return;
+  }
+
+  const emoji = VIDEO_CONFIG.statusReactions[await getMessageStatus(suggestion)];
+  try {
+    await sock.sendMessage(suggestion.chatId, {
+      react: { text: emoji, key: getSuggestionMessageKey(suggestion) }
+    });
+    incrementCounter(METRICS.reactionsSent, { emoji });
+  } catch (error: any) {
+    logger.error(`🔴 [WHATSAPP] Erro ao reagir com ${emoji}: ${error.message}`);
+  }
+}
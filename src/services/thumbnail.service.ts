@@ -0,0 +1,192 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { THUMBNAIL_CONFIG } from '../config/thumbnail.config';
+import { NOTIFICATION_CONFIG } from '../config/notification.config';
+import { VideoSuggestion, setThumbnailRef } from './mongodb.service';
+import { getMediaStorage } from '../storage';
+import { createLogger } from '../utils/logger.utils';
+
+const logger = createLogger('Thumbnail');
+
+// Campos do output do worker aceitos como poster/thumbnail, em ordem de preferência
+const WORKER_IMAGE_FIELDS = ['posterUrl', 'thumbnailUrl'];
+
+/**
+ * Baixa uma imagem respeitando o tamanho máximo configurado
+ */
+export async function downloadImage(url: string): Promise<Buffer> {
+  const { maxBytes, timeoutMs } = THUMBNAIL_CONFIG.download;
+
+  const response = await axios.get<ArrayBuffer>(url, {
+    responseType: 'arraybuffer',
+    timeout: timeoutMs,
+    maxContentLength: maxBytes,
+  });
+
+  return Buffer.from(response.data);
+}
+
+/**
+ * Gera a thumbnail normalizada: WebP quadrado, recortado no centro
+ */
+export async function createThumbnail(image: Buffer): Promise<Buffer> {
+  const { size, quality } = THUMBNAIL_CONFIG;
+
+  return sharp(image)
+    .rotate()
+    .resize(size, size, { fit: 'cover', position: 'attention' })
+    .webp({ quality })
+    .toBuffer();
+}
+
+/**
+ * Gera a prévia em JPEG (formato aceito pelo WhatsApp em mensagens de imagem)
+ */
+export async function createPreview(image: Buffer): Promise<Buffer> {
+  const { width, quality } = NOTIFICATION_CONFIG.preview;
+
+  return sharp(image)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .jpeg({ quality })
+    .toBuffer();
+}
+
+/**
+ * Gera e grava a thumbnail no armazenamento de mídia, endereçada pelo sha256 da imagem de origem
+ */
+export async function storeThumbnail(source: Buffer): Promise<string> {
+  const sha256 = createHash('sha256').update(source).digest('hex');
+  const thumbnail = await createThumbnail(source);
+  const stored = await getMediaStorage().put(`thumbnails/${sha256.substring(0, 2)}/${sha256}.webp`, thumbnail, 'image/webp');
+  return stored.ref;
+}
+
+/**
+ * URL de poster/thumbnail enviada pelo worker no output, se houver
+ */
+export function getWorkerImageUrl(suggestion: VideoSuggestion): string | undefined {
+  for (const field of WORKER_IMAGE_FIELDS) {
+    const url = suggestion.output?.[field];
+    if (typeof url === 'string' && /^https?:\/\//i.test(url)) {
+      return url;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Gera a thumbnail a partir do poster do worker e referencia na sugestão
+ * Retorna a sugestão atualizada; falhas são logadas e a sugestão segue sem thumbnail
+ */
+export async function attachWorkerThumbnail(suggestion: VideoSuggestion): Promise<VideoSuggestion> {
+  const url = getWorkerImageUrl(suggestion);
+  if (!url || suggestion.thumbnailRef) {
+    return suggestion;
+  }
+
+  try {
+    const thumbnailRef = await storeThumbnail(await downloadImage(url));
+    await setThumbnailRef(suggestion.messageId, thumbnailRef);
+    logger.success(`✅ Thumbnail do worker gravada: ${suggestion.messageId}`);
+    return { ...suggestion, thumbnailRef };
+  } catch (error: any) {
+    logger.warn(`⚠️ Não foi possível gerar a thumbnail de ${suggestion.messageId}: ${error.message}`);
+    return suggestion;
+  }
+}
+
+/**
+ * Prévia em JPEG da sugestão: usa a thumbnail gravada ou, na falta dela, o poster do worker
+ * Retorna null se nenhuma imagem estiver disponível
+ */
+export async function buildSuggestionPreview(suggestion: VideoSuggestion): Promise<Buffer | null> {
+  try {
+    if (suggestion.thumbnailRef) {
+      return await createPreview(await getMediaStorage().get(suggestion.thumbnailRef));
+    }
+
+    const url = getWorkerImageUrl(suggestion);
+    return url ? await createPreview(await downloadImage(url)) : null;
+  } catch (error: any) {
+    logger.warn(`⚠️ Não foi possível gerar a prévia de ${suggestion.messageId}: ${error.message}`);
+    return null;
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+}
+
+// Número da sugestão no canto do quadro (o mesmo da legenda do /today)
+function buildBadge(index: number): Buffer {
+  return Buffer.from(
+    `<svg width="56" height="40" xmlns="http://www.w3.org/2000/svg">` +
+    `<rect width="56" height="40" rx="8" fill="#000" fill-opacity="0.65"/>` +
+    `<text x="28" y="28" font-family="sans-serif" font-size="22" font-weight="bold" fill="#fff" text-anchor="middle">${index}</text>` +
+    `</svg>`
+  );
+}
+
+// Quadro para sugestões ainda sem thumbnail (mostra a plataforma)
+async function buildPlaceholderTile(label: string): Promise<Buffer> {
+  const { tileSize, placeholder } = THUMBNAIL_CONFIG.contactSheet;
+  const svg = Buffer.from(
+    `<svg width="${tileSize}" height="${tileSize}" xmlns="http://www.w3.org/2000/svg">` +
+    `<text x="50%" y="55%" font-family="sans-serif" font-size="26" fill="#bbb" text-anchor="middle">${escapeXml(label)}</text>` +
+    `</svg>`
+  );
+
+  return sharp({ create: { width: tileSize, height: tileSize, channels: 3, background: placeholder } })
+    .composite([{ input: svg }])
+    .png()
+    .toBuffer();
+}
+
+async function buildTile(suggestion: VideoSuggestion, index: number): Promise<Buffer> {
+  const { tileSize } = THUMBNAIL_CONFIG.contactSheet;
+
+  let base: Buffer;
+  try {
+    base = suggestion.thumbnailRef
+      ? await sharp(await getMediaStorage().get(suggestion.thumbnailRef)).resize(tileSize, tileSize, { fit: 'cover' }).png().toBuffer()
+      : await buildPlaceholderTile(suggestion.platform || 'vídeo');
+  } catch (error: any) {
+    logger.warn(`⚠️ Thumbnail ilegível para ${suggestion.messageId}: ${error.message}`);
+    base = await buildPlaceholderTile(suggestion.platform || 'vídeo');
+  }
+
+  return sharp(base)
+    .composite([{ input: buildBadge(index), top: 8, left: 8 }])
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Monta a grade (contact sheet) com as sugestões, numeradas na ordem recebida
+ * Retorna um JPEG pronto para enviar no WhatsApp
+ */
+export async function buildContactSheet(suggestions: VideoSuggestion[]): Promise<Buffer> {
+  const { columns, tileSize, gap, maxTiles, background, quality } = THUMBNAIL_CONFIG.contactSheet;
+  const items = suggestions.slice(0, maxTiles);
+  if (items.length === 0) {
+    throw new Error('Nenhuma sugestão para montar o contact sheet');
+  }
+
+  const cols = Math.min(columns, items.length);
+  const rows = Math.ceil(items.length / cols);
+  const width = cols * tileSize + (cols + 1) * gap;
+  const height = rows * tileSize + (rows + 1) * gap;
+
+  const tiles = await Promise.all(items.map((suggestion, i) => buildTile(suggestion, i + 1)));
+
+  return sharp({ create: { width, height, channels: 3, background } })
+    .composite(tiles.map((tile, i) => ({
+      input: tile,
+      left: gap + (i % cols) * (tileSize + gap),
+      top: gap + Math.floor(i / cols) * (tileSize + gap),
+    })))
+    .jpeg({ quality })
+    .toBuffer();
+}
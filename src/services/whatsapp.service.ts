@@ -6,10 +6,16 @@ import {
 } from '../handlers/whatsapp.handlers';
 import { WHATSAPP_CONFIG } from '../config/whatsapp.config';
 import { handleMessagesUpsert } from '../handlers/message.handlers';
+import { handleMessagesReaction } from '../handlers/reaction.handlers';
+import { getStoredMessageContent, storeMessage } from './message-store.service';
+import { clearLatestQr } from './pairing.service';
+import { snapshotWatermarks } from './catch-up.service';
+import { invalidateGroupAdmins } from './roles.service';
+import { clearAuthState, loadAuthState } from './auth-state.service';
+import { incrementCounter, METRICS } from './metrics.service';
 import { createLogger } from '../utils/logger.utils';
 
 const makeWASocket = baileys.makeWASocket;
-const { useMultiFileAuthState } = baileys;
 
 // Logger
 const logger = createLogger('WhatsApp');
@@ -23,6 +29,11 @@ let isConnecting = false;
 let reconnectTimer: NodeJS.Timeout | null = null;
 let connectionHealthCheck: NodeJS.Timeout | null = null;
 let lastSuccessfulConnection: Date | null = null;
+let activeSocket: WhatsappSocket | null = null;
+let currentSocket: WhatsappSocket | null = null; // Último socket criado (aberto ou aguardando pareamento)
+let isResettingSession = false;
+// Sockets encerrados de propósito (logout/limpeza de sessão): o close deles não dispara reconexão
+const retiredSockets = new WeakSet<WhatsappSocket>();
 
 // Estatísticas de conexão
 const connectionStats = {
@@ -80,6 +91,8 @@ function resetReconnectState(): void {
 
 // Função auxiliar para agendar reconexão
 async function scheduleReconnect(reason: string, statusCode?: number): Promise<void> {
+  incrementCounter(METRICS.reconnects, { status_code: statusCode !== undefined ? String(statusCode) : 'none' });
+
   // Prevenir múltiplas tentativas simultâneas
   if (isConnecting) {
     logger.info('⏳ Reconexão já em andamento, aguardando...');
@@ -132,7 +145,7 @@ async function scheduleReconnect(reason: string, statusCode?: number): Promise<v
 
 export async function connectToWhatsApp(): Promise<WhatsappSocket> {
   try {
-    const { state, saveCreds } = await useMultiFileAuthState(WHATSAPP_CONFIG.authStatePath);
+    const { state, saveCreds } = await loadAuthState();
     const { version, isLatest } = await baileys.fetchLatestWaWebVersion({});
 
     const sock: WhatsappSocket = makeWASocket({
@@ -145,17 +158,36 @@ export async function connectToWhatsApp(): Promise<WhatsappSocket> {
       syncFullHistory: false,
       markOnlineOnConnect: false,
       emitOwnEvents: false,
-      getMessage: async (key) => {
-        return { conversation: '' };
-      },
+      // Retry receipts: o Baileys precisa do conteúdo original para recriptografar
+      getMessage: async (key) => getStoredMessageContent(key),
     });
 
+    currentSocket = sock;
+
+    // Guarda tudo o que o bot envia (reações, respostas, menus) para o getMessage
+    const originalSendMessage = sock.sendMessage.bind(sock);
+    sock.sendMessage = async (...args: Parameters<WhatsappSocket['sendMessage']>) => {
+      const sent = await originalSendMessage(...args);
+      if (sent) {
+        await storeMessage(sent);
+      }
+      return sent;
+    };
+
     sock.ev.on('connection.update', async (update) => {
       const { connection, lastDisconnect } = update;
 
+      if (retiredSockets.has(sock)) {
+        return;
+      }
+
       // Conexão estabelecida com sucesso
       if (connection === 'open') {
+        // Antes de qualquer mensagem ao vivo avançar as marcas dos grupos
+        snapshotWatermarks();
+        clearLatestQr();
         lastSuccessfulConnection = new Date();
+        activeSocket = sock;
         logger.success('✅ Conectado ao WhatsApp com sucesso!');
         logger.success(`🕐 Hora da conexão: ${lastSuccessfulConnection.toLocaleString('pt-BR')}`);
         resetReconnectState();
@@ -164,6 +196,7 @@ export async function connectToWhatsApp(): Promise<WhatsappSocket> {
 
       // Conexão fechada - tratar reconexão
       if (connection === 'close') {
+        if (activeSocket === sock) activeSocket = null;
         const error = lastDisconnect?.error as any;
         const statusCode = error?.output?.statusCode;
         const errorData = error?.data;
@@ -244,6 +277,32 @@ export async function connectToWhatsApp(): Promise<WhatsappSocket> {
       }
     });
 
+    // Histórico sincronizado ao reconectar: recupera o que chegou enquanto o bot estava offline
+    sock.ev.on('messaging-history.set', async ({ messages, syncType }) => {
+      try {
+        logger.info(`🕘 Histórico recebido (${syncType}): ${messages.length} mensagem(ns)`);
+        await handleMessagesUpsert({ sock, messages, type: 'append' });
+      } catch (error) {
+        logger.error('❌ Erro ao processar histórico:', error);
+      }
+    });
+
+    // Reações nas sugestões contam como voto de prioridade
+    sock.ev.on('messages.reaction', async (reactions) => {
+      try {
+        await handleMessagesReaction({ sock, reactions });
+      } catch (error) {
+        logger.error('❌ Erro ao processar reações:', error);
+      }
+    });
+
+    // Mudança de admins no grupo: o próximo comando consulta o groupMetadata de novo
+    sock.ev.on('group-participants.update', ({ id, action }) => {
+      if (action === 'promote' || action === 'demote' || action === 'remove') {
+        invalidateGroupAdmins(id);
+      }
+    });
+
     isConnecting = false;
     return sock;
   } catch (error) {
@@ -260,25 +319,86 @@ export async function connectToWhatsApp(): Promise<WhatsappSocket> {
   }
 }
 
-// Função para limpar o estado de autenticação
-async function clearAuthState() {
-  const fs = require('fs').promises;
-  const path = require('path');
+/**
+ * Erro de pareamento/sessão que o usuário pode resolver (ex.: já conectado, reset em andamento)
+ */
+export function createPairingError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'PairingError';
+  return error;
+}
 
-  try {
-    const authPath = WHATSAPP_CONFIG.authStatePath;
-    const files = await fs.readdir(authPath);
+export function isPairingError(error: any): boolean {
+  return error?.name === 'PairingError';
+}
+
+/**
+ * Pede um código de pareamento para o número (alternativa ao QR)
+ * phoneNumber só com dígitos, com DDI (ex.: 5511999999999)
+ */
+export async function requestPairingCode(phoneNumber: string): Promise<string> {
+  const sock = currentSocket;
+  if (!sock || retiredSockets.has(sock)) {
+    throw createPairingError('Nenhuma conexão aguardando pareamento; tente novamente em alguns segundos');
+  }
+  if (sock.authState.creds.registered) {
+    throw createPairingError('Este bot já está pareado; use "sair e parear de novo" antes');
+  }
 
-    for (const file of files) {
-      await fs.unlink(path.join(authPath, file));
+  const code = await sock.requestPairingCode(phoneNumber);
+  logger.info(`🔢 Código de pareamento gerado para ${phoneNumber}`);
+  return code;
+}
+
+/**
+ * Encerra a sessão atual e abre uma conexão nova aguardando pareamento
+ * 'logout' desconecta o aparelho no WhatsApp; 'clear' só descarta as credenciais locais
+ * O socket antigo é aposentado antes de apagar os arquivos para não regravar credenciais no meio da limpeza
+ */
+export async function resetSession(mode: 'logout' | 'clear'): Promise<void> {
+  if (isResettingSession) {
+    throw createPairingError('Já existe uma troca de sessão em andamento');
+  }
+
+  isResettingSession = true;
+  try {
+    resetReconnectState();
+
+    const sock = currentSocket;
+    if (sock) {
+      retiredSockets.add(sock);
+      sock.ev.removeAllListeners('creds.update');
+      if (activeSocket === sock) activeSocket = null;
+
+      if (mode === 'logout') {
+        try {
+          await sock.logout('Logout pelo painel');
+        } catch (error: any) {
+          // Sem conexão aberta o logout remoto falha; a limpeza local segue
+          logger.warn(`⚠️ Logout remoto falhou: ${error.message}`);
+          await sock.end(undefined);
+        }
+      } else {
+        await sock.end(undefined);
+      }
     }
 
-    logger.info('Estado de autenticação limpo com sucesso');
-  } catch (error) {
-    logger.error('Erro ao limpar estado:', error);
+    currentSocket = null;
+    clearLatestQr();
+    await clearAuthState();
+    logger.info(`🔑 Sessão reiniciada (${mode}); aguardando novo pareamento`);
+
+    await connectToWhatsApp();
+  } finally {
+    isResettingSession = false;
   }
 }
 
+// Socket conectado no momento (null enquanto reconecta)
+export function getActiveSocket(): WhatsappSocket | null {
+  return activeSocket;
+}
+
 // Função para obter estatísticas de conexão
 export function getConnectionStats() {
   return {
@@ -0,0 +1,24 @@
+import { MEDIA_CONFIG } from '../config/media.config';
+import { LocalMediaStorage } from './local.storage';
+import type { MediaStorage } from './media-storage.types';
+
+export type { MediaStorage, StoredMedia } from './media-storage.types';
+
+let storage: MediaStorage | null = null;
+
+/**
+ * Backend de mídia configurado em MEDIA_STORAGE
+ * Novos backends (ex.: S3) entram aqui implementando MediaStorage
+ */
+export function getMediaStorage(): MediaStorage {
+  if (!storage) {
+    switch (MEDIA_CONFIG.storage) {
+      case 'local':
+        storage = new LocalMediaStorage(MEDIA_CONFIG.localDir, MEDIA_CONFIG.publicBaseUrl);
+        break;
+      default:
+        throw new Error(`Backend de mídia desconhecido: ${MEDIA_CONFIG.storage}`);
+    }
+  }
+  return storage;
+}
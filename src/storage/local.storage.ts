@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MediaStorage, StoredMedia } from './media-storage.types';
+
+const REF_PREFIX = 'local://';
+
+/**
+ * Armazenamento em disco local (MEDIA_LOCAL_DIR)
+ */
+export class LocalMediaStorage implements MediaStorage {
+  readonly name = 'local';
+
+  constructor(private readonly baseDir: string, private readonly publicBaseUrl?: string) {}
+
+  // Resolve a referência para um caminho dentro de baseDir (bloqueia "../")
+  private resolvePath(refOrKey: string): string {
+    const key = refOrKey.startsWith(REF_PREFIX) ? refOrKey.slice(REF_PREFIX.length) : refOrKey;
+    const root = path.resolve(this.baseDir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Referência de mídia inválida: ${refOrKey}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<StoredMedia> {
+    const filePath = this.resolvePath(key);
+
+    if (!(await this.exists(key))) {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Grava num temporário e renomeia para não expor arquivo pela metade
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, data);
+      await fs.rename(tmpPath, filePath);
+    }
+
+    return {
+      ref: `${REF_PREFIX}${key}`,
+      key,
+      url: this.publicBaseUrl ? `${this.publicBaseUrl.replace(/\/$/, '')}/${key}` : undefined,
+    };
+  }
+
+  async get(ref: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(ref));
+  }
+
+  async exists(ref: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolvePath(ref));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async delete(ref: string): Promise<void> {
+    await fs.rm(this.resolvePath(ref), { force: true });
+  }
+}
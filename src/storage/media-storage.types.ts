@@ -0,0 +1,20 @@
+/**
+ * Arquivo gravado no armazenamento de mídia
+ */
+export interface StoredMedia {
+  ref: string; // Referência estável do backend (ex.: local://video/ab/<sha256>.mp4)
+  key: string; // Caminho relativo dentro do backend
+  url?: string; // URL pública, quando o backend expõe uma
+}
+
+/**
+ * Backend de armazenamento de mídia
+ * As chaves são derivadas do sha256, então gravar o mesmo conteúdo duas vezes é idempotente
+ */
+export interface MediaStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, mimeType: string): Promise<StoredMedia>;
+  get(ref: string): Promise<Buffer>;
+  exists(ref: string): Promise<boolean>;
+  delete(ref: string): Promise<void>;
+}
@@ -1,5 +1,6 @@
 import type {
   AuthenticationState,
+  BaileysEventMap,
   MessageUpsertType,
   proto,
   AnyMessageContent,
@@ -30,8 +31,76 @@ export type MessagesUpsert = {
   sock: WhatsappSocket;
 };
 
+export type MessagesReaction = {
+  reactions: BaileysEventMap['messages.reaction'];
+  sock: WhatsappSocket;
+};
+
 export type AuthState = AuthenticationState;
 
 export type WhatsappSocket = WASocket;
 
 export type SendMessage = (jid: string, content: AnyMessageContent) => Promise<void>;
+
+export type VideoPlatform =
+  | 'youtube'
+  | 'tiktok'
+  | 'instagram'
+  | 'facebook'
+  | 'twitter'
+  | 'other'
+  | 'upload'; // Vídeo/imagem enviado direto no grupo (videoId = sha256 do conteúdo)
+
+export type MediaKind = 'video' | 'image';
+
+/**
+ * Arquivo enviado direto no grupo, já gravado no armazenamento de mídia
+ */
+export interface SuggestionMedia {
+  ref: string; // Referência no backend (ex.: local://video/ab/<sha256>.mp4)
+  kind: MediaKind;
+  mimeType: string;
+  size: number; // bytes
+  sha256: string;
+  url?: string; // URL pública, quando o backend expõe uma
+}
+
+/**
+ * Envelope versionado publicado na fila video-suggestions
+ * Alterações incompatíveis devem incrementar schemaVersion
+ */
+export interface VideoSuggestionEnvelope {
+  schemaVersion: 1;
+  eventType: 'video.suggested';
+  occurredAt: string; // ISO 8601 (horário da mensagem no WhatsApp)
+  correlationId: string; // messageId da sugestão
+  source: {
+    tenantId: string; // Viagem/tenant do grupo
+    chatJid: string;
+    messageId: string;
+    sugeridoPor: string;
+  };
+  data: {
+    url: string; // URL canônica
+    originalUrl: string; // URL como foi enviada no grupo
+    platform: VideoPlatform;
+    videoId: string; // ID canônico na plataforma
+    texto: string;
+    media?: SuggestionMedia; // Presente quando platform é 'upload'
+    thumbnailRef?: string; // Thumbnail WebP no armazenamento de mídia, quando já existe
+    metadata?: Record<string, string>; // Escolhas dos menus feitas antes da publicação; as posteriores ficam só em video_suggestions.metadata
+    priorityScore: number; // Votos + re-sugestões no momento da publicação (o ranking atual fica no MongoDB)
+  };
+}
+
+/**
+ * Evento de processamento publicado pelos workers em video-suggestions.events
+ */
+export interface SuggestionLifecycleEvent {
+  eventType: 'processing.started' | 'processing.completed' | 'processing.failed';
+  correlationId: string; // messageId da sugestão
+  occurredAt?: string; // ISO 8601
+  worker?: string;
+  output?: Record<string, any>; // Metadados do resultado (processing.completed)
+  reason?: string; // Motivo da falha (processing.failed)
+}
@@ -0,0 +1,153 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_TENANT_ID } from '../../config/groups.config';
+import {
+  ENVELOPE_SCHEMA_VERSION,
+  assertValidEnvelope,
+  buildVideoSuggestionEnvelope,
+  getEnvelopePublishOptions,
+  validateVideoSuggestionEnvelope,
+} from '../envelope.utils';
+
+const SHA256 = 'a'.repeat(64);
+
+function buildSuggestion() {
+  return {
+    url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    originalUrl: 'https://youtu.be/dQw4w9WgXcQ?si=abc',
+    platform: 'youtube' as const,
+    videoId: 'dQw4w9WgXcQ',
+    texto: 'olha esse',
+    sugeridoPor: 'Participante',
+    messageId: 'MSG_1',
+    chatId: '120363000000000000@g.us',
+    tenantId: 'viagem-2026',
+    timestamp: Date.UTC(2026, 0, 15, 12),
+  };
+}
+
+function buildUploadEnvelope() {
+  return buildVideoSuggestionEnvelope({
+    ...buildSuggestion(),
+    url: 'uploads/MSG_1.mp4',
+    platform: 'upload',
+    videoId: SHA256,
+    mediaRef: 'uploads/MSG_1.mp4',
+    mediaKind: 'video',
+    mediaMimeType: 'video/mp4',
+    mediaSize: 1024,
+    mediaSha256: SHA256,
+  });
+}
+
+// Envelope válido com um campo trocado (caminho com pontos, ex.: 'data.priorityScore')
+function withField(envelope: object, fieldPath: string, value: unknown): any {
+  const copy = JSON.parse(JSON.stringify(envelope));
+  const keys = fieldPath.split('.');
+  const parent = keys.slice(0, -1).reduce((target, key) => target[key], copy);
+  parent[keys[keys.length - 1]] = value;
+  return copy;
+}
+
+test('monta envelope válido na versão atual do schema', () => {
+  const envelope = buildVideoSuggestionEnvelope(buildSuggestion());
+
+  assert.equal(ENVELOPE_SCHEMA_VERSION, 1);
+  assert.equal(envelope.schemaVersion, ENVELOPE_SCHEMA_VERSION);
+  assert.equal(envelope.eventType, 'video.suggested');
+  assert.equal(envelope.occurredAt, '2026-01-15T12:00:00.000Z');
+  assert.equal(envelope.correlationId, 'MSG_1');
+  assert.equal(envelope.data.priorityScore, 0);
+  assert.equal(envelope.data.media, undefined);
+  assert.deepEqual(validateVideoSuggestionEnvelope(envelope), []);
+  assert.doesNotThrow(() => assertValidEnvelope(envelope));
+});
+
+test('sugestão antiga sem platform/videoId nem tenant é reconhecida pela URL', () => {
+  const { platform, videoId, tenantId, originalUrl, ...legacy } = buildSuggestion();
+  const envelope = buildVideoSuggestionEnvelope({ ...legacy, url: 'https://youtu.be/dQw4w9WgXcQ' } as any);
+
+  assert.equal(envelope.data.platform, 'youtube');
+  assert.equal(envelope.data.videoId, 'dQw4w9WgXcQ');
+  assert.equal(envelope.data.url, 'https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+  assert.equal(envelope.source.tenantId, DEFAULT_TENANT_ID);
+  assert.deepEqual(validateVideoSuggestionEnvelope(envelope), []);
+});
+
+test('envelope de mídia enviada no grupo é válido', () => {
+  const envelope = buildUploadEnvelope();
+
+  assert.equal(envelope.data.media?.sha256, SHA256);
+  assert.deepEqual(validateVideoSuggestionEnvelope(envelope), []);
+});
+
+test('rejeita cada campo inválido com a mensagem do campo', () => {
+  const envelope = buildVideoSuggestionEnvelope(buildSuggestion());
+  const cases: [string, unknown, string][] = [
+    ['schemaVersion', 2, `schemaVersion deve ser ${ENVELOPE_SCHEMA_VERSION}`],
+    ['eventType', 'video.deleted', 'eventType deve ser video.suggested'],
+    ['occurredAt', 'ontem', 'occurredAt deve ser uma data ISO válida'],
+    ['correlationId', '', 'correlationId é obrigatório'],
+    ['source', null, 'source é obrigatório'],
+    ['source.tenantId', ' ', 'source.tenantId é obrigatório'],
+    ['source.chatJid', undefined, 'source.chatJid é obrigatório'],
+    ['source.messageId', '', 'source.messageId é obrigatório'],
+    ['source.sugeridoPor', 42, 'source.sugeridoPor deve ser texto'],
+    ['data', 'x', 'data é obrigatório'],
+    ['data.url', 'ftp://exemplo.com/video', 'data.url deve ser uma URL http(s)'],
+    ['data.platform', 'vimeo', 'data.platform inválida: vimeo'],
+    ['data.videoId', '', 'data.videoId é obrigatório'],
+    ['data.originalUrl', null, 'data.originalUrl deve ser texto'],
+    ['data.texto', undefined, 'data.texto deve ser texto'],
+    ['data.metadata', { prioridade: 1 }, 'data.metadata deve ser um objeto de textos'],
+    ['data.priorityScore', undefined, 'data.priorityScore deve ser um inteiro não negativo'],
+    ['data.priorityScore', -1, 'data.priorityScore deve ser um inteiro não negativo'],
+    ['data.priorityScore', 1.5, 'data.priorityScore deve ser um inteiro não negativo'],
+  ];
+
+  for (const [fieldPath, value, message] of cases) {
+    assert.deepEqual(validateVideoSuggestionEnvelope(withField(envelope, fieldPath, value)), [message], fieldPath);
+  }
+  assert.deepEqual(validateVideoSuggestionEnvelope(null), ['envelope deve ser um objeto']);
+});
+
+test('upload exige data.media completo e sha256 em hexadecimal', () => {
+  const envelope = buildUploadEnvelope();
+  const cases: [string, unknown, string][] = [
+    ['data.media', undefined, 'data.media é obrigatório para platform upload'],
+    ['data.media.ref', '', 'data.media.ref é obrigatório'],
+    ['data.media.kind', 'audio', 'data.media.kind inválido: audio'],
+    ['data.media.mimeType', '', 'data.media.mimeType é obrigatório'],
+    ['data.media.size', 0, 'data.media.size deve ser positivo'],
+    ['data.media.sha256', 'abc123', 'data.media.sha256 deve ser um hash sha256 em hexadecimal'],
+    ['data.media.sha256', 'A'.repeat(64), 'data.media.sha256 deve ser um hash sha256 em hexadecimal'],
+  ];
+
+  for (const [fieldPath, value, message] of cases) {
+    assert.deepEqual(validateVideoSuggestionEnvelope(withField(envelope, fieldPath, value)), [message], fieldPath);
+  }
+});
+
+test('assertValidEnvelope lança EnvelopeValidationError com todos os problemas', () => {
+  const invalid = withField(withField(buildVideoSuggestionEnvelope(buildSuggestion()), 'schemaVersion', 0), 'correlationId', '');
+
+  assert.throws(() => assertValidEnvelope(invalid), (error: Error) => {
+    assert.equal(error.name, 'EnvelopeValidationError');
+    assert.match(error.message, /schemaVersion deve ser 1; correlationId é obrigatório/);
+    return true;
+  });
+});
+
+test('propriedades AMQP levam a versão do schema e a origem nos headers', () => {
+  const options = getEnvelopePublishOptions(buildVideoSuggestionEnvelope(buildSuggestion()));
+
+  assert.equal(options.messageId, 'MSG_1');
+  assert.equal(options.type, 'video.suggested');
+  assert.equal(options.timestamp, Date.UTC(2026, 0, 15, 12) / 1000);
+  assert.deepEqual(options.headers, {
+    'x-schema-version': ENVELOPE_SCHEMA_VERSION,
+    'x-source-chat': '120363000000000000@g.us',
+    'x-tenant-id': 'viagem-2026',
+    'x-platform': 'youtube',
+  });
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VIDEO_CONFIG } from '../../config/video.config';
+import { extractVideoUrls, findUrls, normalizeVideoUrl, parseVideoUrl, stripTrackingParams } from '../video-url.utils';
+
+function parseIds(rawUrl: string) {
+  const parsed = parseVideoUrl(rawUrl);
+  return parsed && { platform: parsed.platform, videoId: parsed.videoId, canonicalUrl: parsed.canonicalUrl };
+}
+
+test('YouTube: watch, youtu.be, shorts e embed chegam ao mesmo vídeo', () => {
+  const expected = { platform: 'youtube', videoId: 'dQw4w9WgXcQ', canonicalUrl: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ' };
+
+  assert.deepEqual(parseIds('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s'), expected);
+  assert.deepEqual(parseIds('https://youtu.be/dQw4w9WgXcQ?si=abc123'), expected);
+  assert.deepEqual(parseIds('https://m.youtube.com/shorts/dQw4w9WgXcQ'), expected);
+  assert.deepEqual(parseIds('https://www.youtube.com/embed/dQw4w9WgXcQ'), expected);
+  assert.equal(parseVideoUrl('https://www.youtube.com/watch?v=curto'), null);
+});
+
+test('TikTok: link completo e link curto sem resolver', () => {
+  assert.deepEqual(parseIds('https://www.tiktok.com/@viajante/video/7234567890123456789?is_from_webapp=1'), {
+    platform: 'tiktok',
+    videoId: '7234567890123456789',
+    canonicalUrl: 'https://www.tiktok.com/@viajante/video/7234567890123456789',
+  });
+  assert.deepEqual(parseIds('https://vm.tiktok.com/ZMabc123/'), {
+    platform: 'tiktok',
+    videoId: 'short:ZMabc123',
+    canonicalUrl: 'https://vm.tiktok.com/ZMabc123/',
+  });
+  assert.equal(parseVideoUrl('https://www.tiktok.com/t/ZTabc987/')?.videoId, 'short:ZTabc987');
+});
+
+test('Instagram: reel, reels e tv viram /reel/, post mantém /p/', () => {
+  const reel = { platform: 'instagram', videoId: 'Cabc123', canonicalUrl: 'https://www.instagram.com/reel/Cabc123/' };
+
+  assert.deepEqual(parseIds('https://www.instagram.com/reel/Cabc123/?igsh=xyz'), reel);
+  assert.deepEqual(parseIds('https://instagram.com/reels/Cabc123'), reel);
+  assert.deepEqual(parseIds('https://www.instagram.com/tv/Cabc123/'), reel);
+  assert.equal(parseVideoUrl('https://www.instagram.com/p/Cxyz789/')?.canonicalUrl, 'https://www.instagram.com/p/Cxyz789/');
+  assert.equal(parseVideoUrl('https://www.instagram.com/viajante/'), null);
+});
+
+test('Facebook: watch, reel, vídeo de página e fb.watch', () => {
+  const watch = { platform: 'facebook', videoId: '123456789', canonicalUrl: 'https://www.facebook.com/watch/?v=123456789' };
+
+  assert.deepEqual(parseIds('https://www.facebook.com/watch/?v=123456789&mibextid=abc'), watch);
+  assert.deepEqual(parseIds('https://www.facebook.com/reel/123456789'), watch);
+  assert.deepEqual(parseIds('https://www.facebook.com/pagina/videos/123456789/'), watch);
+  assert.deepEqual(parseIds('https://fb.watch/aBcD12/'), {
+    platform: 'facebook',
+    videoId: 'short:aBcD12',
+    canonicalUrl: 'https://fb.watch/aBcD12/',
+  });
+});
+
+test('Twitter/X: status de twitter.com e x.com são o mesmo vídeo', () => {
+  const expected = { platform: 'twitter', videoId: '1700000000000000000', canonicalUrl: 'https://x.com/viajante/status/1700000000000000000' };
+
+  assert.deepEqual(parseIds('https://twitter.com/viajante/status/1700000000000000000?s=20'), expected);
+  assert.deepEqual(parseIds('https://x.com/viajante/status/1700000000000000000/video/1'), expected);
+  assert.equal(parseVideoUrl('https://x.com/viajante'), null);
+});
+
+test('guarda a URL original sem a pontuação colada no final', () => {
+  assert.equal(parseVideoUrl('https://youtu.be/dQw4w9WgXcQ).')?.originalUrl, 'https://youtu.be/dQw4w9WgXcQ');
+});
+
+test('links que não são de vídeo são ignorados', { skip: VIDEO_CONFIG.allowNonVideoLinks }, () => {
+  assert.equal(parseVideoUrl('https://www.booking.com/hotel/br/praia.html'), null);
+  assert.equal(parseVideoUrl('ftp://youtu.be/dQw4w9WgXcQ'), null);
+  assert.equal(parseVideoUrl('não é link'), null);
+});
+
+test('remove parâmetros de rastreamento e o fragmento', () => {
+  const cleaned = stripTrackingParams(new URL('https://exemplo.com/roteiro?dia=2&utm_source=zap&UTM_Medium=x&fbclid=abc&si=1#mapa'));
+
+  assert.equal(cleaned.toString(), 'https://exemplo.com/roteiro?dia=2');
+});
+
+test('normalizeVideoUrl não acessa a rede para links completos', async () => {
+  assert.deepEqual(await normalizeVideoUrl('https://youtu.be/dQw4w9WgXcQ'), parseVideoUrl('https://youtu.be/dQw4w9WgXcQ'));
+});
+
+test('encontra os links do texto e não repete o mesmo vídeo', async () => {
+  const text = 'Olha esse: https://youtu.be/dQw4w9WgXcQ, e esse https://www.youtube.com/watch?v=dQw4w9WgXcQ! Também https://x.com/v/status/1700000000000000000';
+
+  assert.deepEqual(findUrls(text), [
+    'https://youtu.be/dQw4w9WgXcQ',
+    'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    'https://x.com/v/status/1700000000000000000',
+  ]);
+  assert.deepEqual((await extractVideoUrls(text)).map(video => video.videoId), ['dQw4w9WgXcQ', '1700000000000000000']);
+});
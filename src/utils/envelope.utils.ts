@@ -0,0 +1,172 @@
+import type { Options } from 'amqplib';
+import type { VideoPlatform, VideoSuggestionEnvelope } from '../types';
+import type { VideoSuggestion } from '../services/mongodb.service';
+import { parseVideoUrl } from './video-url.utils';
+import { DEFAULT_TENANT_ID } from '../config/groups.config';
+
+export const ENVELOPE_SCHEMA_VERSION = 1;
+export const VIDEO_SUGGESTED_EVENT = 'video.suggested';
+export const ENVELOPE_CONTENT_TYPE = 'application/json';
+
+export const VALID_PLATFORMS: VideoPlatform[] = ['youtube', 'tiktok', 'instagram', 'facebook', 'twitter', 'other', 'upload'];
+
+/**
+ * Monta o envelope a partir da sugestão salva
+ * Usado pelo handler e pelos scripts de replay, para que as mensagens sejam idênticas
+ */
+export function buildVideoSuggestionEnvelope(
+  suggestion: Pick<VideoSuggestion, 'url' | 'texto' | 'sugeridoPor' | 'messageId' | 'chatId' | 'tenantId' | 'timestamp' | 'platform' | 'videoId' | 'originalUrl'>
+    & Partial<Pick<VideoSuggestion, 'mediaRef' | 'mediaKind' | 'mediaMimeType' | 'mediaSize' | 'mediaSha256' | 'thumbnailRef' | 'metadata' | 'priorityScore'>>
+): VideoSuggestionEnvelope {
+  // Sugestões antigas não têm platform/videoId salvos: reconhece a partir da URL
+  const parsed = suggestion.platform && suggestion.videoId ? null : parseVideoUrl(suggestion.url);
+
+  return {
+    schemaVersion: ENVELOPE_SCHEMA_VERSION,
+    eventType: VIDEO_SUGGESTED_EVENT,
+    occurredAt: new Date(suggestion.timestamp).toISOString(),
+    correlationId: suggestion.messageId,
+    source: {
+      tenantId: suggestion.tenantId || DEFAULT_TENANT_ID,
+      chatJid: suggestion.chatId,
+      messageId: suggestion.messageId,
+      sugeridoPor: suggestion.sugeridoPor,
+    },
+    data: {
+      url: parsed?.canonicalUrl || suggestion.url,
+      originalUrl: suggestion.originalUrl || suggestion.url,
+      platform: suggestion.platform || parsed?.platform || 'other',
+      videoId: suggestion.videoId || parsed?.videoId || suggestion.url,
+      texto: suggestion.texto,
+      ...(suggestion.mediaRef ? {
+        media: {
+          ref: suggestion.mediaRef,
+          kind: suggestion.mediaKind || 'video',
+          mimeType: suggestion.mediaMimeType || 'application/octet-stream',
+          size: suggestion.mediaSize || 0,
+          sha256: suggestion.mediaSha256 || suggestion.videoId || '',
+          ...(/^https?:\/\//i.test(suggestion.url) ? { url: suggestion.url } : {}),
+        }
+      } : {}),
+      ...(suggestion.thumbnailRef ? { thumbnailRef: suggestion.thumbnailRef } : {}),
+      ...(suggestion.metadata && Object.keys(suggestion.metadata).length > 0 ? { metadata: suggestion.metadata } : {}),
+      priorityScore: suggestion.priorityScore || 0,
+    },
+  };
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function validateMedia(media: any): string[] {
+  if (!media || typeof media !== 'object') {
+    return ['data.media é obrigatório para platform upload'];
+  }
+
+  const errors: string[] = [];
+  if (!isNonEmptyString(media.ref)) errors.push('data.media.ref é obrigatório');
+  if (media.kind !== 'video' && media.kind !== 'image') errors.push(`data.media.kind inválido: ${media.kind}`);
+  if (!isNonEmptyString(media.mimeType)) errors.push('data.media.mimeType é obrigatório');
+  if (typeof media.size !== 'number' || media.size <= 0) errors.push('data.media.size deve ser positivo');
+  if (!isNonEmptyString(media.sha256) || !/^[a-f0-9]{64}$/.test(media.sha256)) {
+    errors.push('data.media.sha256 deve ser um hash sha256 em hexadecimal');
+  }
+  return errors;
+}
+
+/**
+ * Valida o envelope em tempo de execução
+ * Retorna a lista de problemas encontrados (vazia se válido)
+ */
+export function validateVideoSuggestionEnvelope(envelope: any): string[] {
+  const errors: string[] = [];
+
+  if (!envelope || typeof envelope !== 'object') {
+    return ['envelope deve ser um objeto'];
+  }
+
+  if (envelope.schemaVersion !== ENVELOPE_SCHEMA_VERSION) {
+    errors.push(`schemaVersion deve ser ${ENVELOPE_SCHEMA_VERSION}`);
+  }
+  if (envelope.eventType !== VIDEO_SUGGESTED_EVENT) {
+    errors.push(`eventType deve ser ${VIDEO_SUGGESTED_EVENT}`);
+  }
+  if (!isNonEmptyString(envelope.occurredAt) || isNaN(Date.parse(envelope.occurredAt))) {
+    errors.push('occurredAt deve ser uma data ISO válida');
+  }
+  if (!isNonEmptyString(envelope.correlationId)) {
+    errors.push('correlationId é obrigatório');
+  }
+
+  const source = envelope.source;
+  if (!source || typeof source !== 'object') {
+    errors.push('source é obrigatório');
+  } else {
+    if (!isNonEmptyString(source.tenantId)) errors.push('source.tenantId é obrigatório');
+    if (!isNonEmptyString(source.chatJid)) errors.push('source.chatJid é obrigatório');
+    if (!isNonEmptyString(source.messageId)) errors.push('source.messageId é obrigatório');
+    if (typeof source.sugeridoPor !== 'string') errors.push('source.sugeridoPor deve ser texto');
+  }
+
+  const data = envelope.data;
+  if (!data || typeof data !== 'object') {
+    errors.push('data é obrigatório');
+  } else {
+    if (data.platform === 'upload') {
+      // Mídia enviada no grupo: url pode ser a referência do armazenamento
+      if (!isNonEmptyString(data.url)) errors.push('data.url é obrigatório');
+      errors.push(...validateMedia(data.media));
+    } else if (!isNonEmptyString(data.url) || !/^https?:\/\//i.test(data.url)) {
+      errors.push('data.url deve ser uma URL http(s)');
+    }
+    if (!VALID_PLATFORMS.includes(data.platform)) {
+      errors.push(`data.platform inválida: ${data.platform}`);
+    }
+    if (!isNonEmptyString(data.videoId)) errors.push('data.videoId é obrigatório');
+    if (typeof data.originalUrl !== 'string') errors.push('data.originalUrl deve ser texto');
+    if (typeof data.texto !== 'string') errors.push('data.texto deve ser texto');
+    if (data.metadata !== undefined && (typeof data.metadata !== 'object' || data.metadata === null
+      || Object.values(data.metadata).some(value => typeof value !== 'string'))) {
+      errors.push('data.metadata deve ser um objeto de textos');
+    }
+    if (typeof data.priorityScore !== 'number' || !Number.isInteger(data.priorityScore) || data.priorityScore < 0) {
+      errors.push('data.priorityScore deve ser um inteiro não negativo');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Lança erro se o envelope não for válido
+ */
+export function assertValidEnvelope(envelope: unknown): asserts envelope is VideoSuggestionEnvelope {
+  const errors = validateVideoSuggestionEnvelope(envelope);
+  if (errors.length > 0) {
+    const error = new Error(`🔴 [ENVELOPE] Mensagem inválida: ${errors.join('; ')}`);
+    error.name = 'EnvelopeValidationError';
+    throw error;
+  }
+}
+
+/**
+ * Propriedades AMQP derivadas do envelope (type, contentType, messageId e headers)
+ */
+export function getEnvelopePublishOptions(envelope: VideoSuggestionEnvelope): Options.Publish {
+  return {
+    type: envelope.eventType,
+    contentType: ENVELOPE_CONTENT_TYPE,
+    contentEncoding: 'utf-8',
+    messageId: envelope.correlationId,
+    correlationId: envelope.correlationId,
+    timestamp: Math.floor(Date.parse(envelope.occurredAt) / 1000),
+    appId: 'trip-video-queue',
+    headers: {
+      'x-schema-version': envelope.schemaVersion,
+      'x-source-chat': envelope.source.chatJid,
+      'x-tenant-id': envelope.source.tenantId,
+      'x-platform': envelope.data.platform,
+    },
+  };
+}
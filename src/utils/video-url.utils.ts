@@ -0,0 +1,281 @@
+import axios from 'axios';
+import type { VideoPlatform } from '../types';
+import { VIDEO_CONFIG } from '../config/video.config';
+import { createLogger } from './logger.utils';
+
+const logger = createLogger('VideoUrl');
+
+/**
+ * URL de vídeo reconhecida, com identificador canônico da plataforma
+ */
+export interface ParsedVideoUrl {
+  platform: VideoPlatform;
+  videoId: string;
+  canonicalUrl: string;
+  originalUrl: string;
+}
+
+// Hosts de links curtos que precisam de redirect para revelar o ID do vídeo
+const SHORT_LINK_HOSTS = ['vm.tiktok.com', 'vt.tiktok.com', 'fb.watch'];
+
+const YOUTUBE_ID = /^[a-zA-Z0-9_-]{11}$/;
+
+function hostMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function pathSegments(url: URL): string[] {
+  return url.pathname.split('/').filter(Boolean);
+}
+
+/**
+ * Remove pontuação comum colada no final do link
+ */
+function cleanRawUrl(rawUrl: string): string {
+  return rawUrl.trim().replace(/[.,!?;:)\]]+$/, '');
+}
+
+/**
+ * Remove parâmetros de rastreamento (si, igsh, utm_*...) e o fragmento
+ */
+export function stripTrackingParams(url: URL): URL {
+  const cleaned = new URL(url.toString());
+  cleaned.hash = '';
+
+  for (const key of Array.from(cleaned.searchParams.keys())) {
+    const lower = key.toLowerCase();
+    const isTracking =
+      VIDEO_CONFIG.trackingParams.includes(lower) ||
+      VIDEO_CONFIG.trackingParamPrefixes.some(prefix => lower.startsWith(prefix));
+    if (isTracking) {
+      cleaned.searchParams.delete(key);
+    }
+  }
+
+  return cleaned;
+}
+
+function parseYouTube(url: URL): string | null {
+  const host = url.hostname;
+  const segments = pathSegments(url);
+
+  if (hostMatches(host, 'youtu.be')) {
+    return segments[0] || null;
+  }
+
+  if (segments[0] === 'watch') {
+    return url.searchParams.get('v');
+  }
+
+  // /shorts/ID, /embed/ID, /live/ID, /v/ID
+  if (['shorts', 'embed', 'live', 'v'].includes(segments[0])) {
+    return segments[1] || null;
+  }
+
+  return null;
+}
+
+function parseTikTok(url: URL): { videoId: string; canonicalUrl: string } | null {
+  const segments = pathSegments(url);
+
+  // /@usuario/video/ID
+  const videoIndex = segments.indexOf('video');
+  if (videoIndex >= 0 && /^\d+$/.test(segments[videoIndex + 1] || '')) {
+    const user = segments[videoIndex - 1]?.startsWith('@') ? segments[videoIndex - 1] : '@';
+    const videoId = segments[videoIndex + 1];
+    return { videoId, canonicalUrl: `https://www.tiktok.com/${user}/video/${videoId}` };
+  }
+
+  // Link curto não resolvido: vm.tiktok.com/CODE ou tiktok.com/t/CODE
+  const shortCode = hostMatches(url.hostname, 'vm.tiktok.com') || hostMatches(url.hostname, 'vt.tiktok.com')
+    ? segments[0]
+    : segments[0] === 't' ? segments[1] : undefined;
+  if (shortCode) {
+    return { videoId: `short:${shortCode}`, canonicalUrl: `https://${url.hostname}/${segments.join('/')}/` };
+  }
+
+  return null;
+}
+
+function parseInstagram(url: URL): { videoId: string; canonicalUrl: string } | null {
+  const segments = pathSegments(url);
+  const kind = segments[0];
+  const id = segments[1];
+
+  if (!id || !['reel', 'reels', 'p', 'tv'].includes(kind)) {
+    return null;
+  }
+
+  const canonicalKind = kind === 'p' ? 'p' : 'reel';
+  return { videoId: id, canonicalUrl: `https://www.instagram.com/${canonicalKind}/${id}/` };
+}
+
+function parseFacebook(url: URL): string | null {
+  const segments = pathSegments(url);
+
+  // /watch/?v=ID ou /watch?v=ID
+  if (segments[0] === 'watch' && url.searchParams.get('v')) {
+    return url.searchParams.get('v');
+  }
+
+  // /reel/ID ou /{pagina}/videos/ID
+  if (segments[0] === 'reel' && segments[1]) {
+    return segments[1];
+  }
+  const videosIndex = segments.indexOf('videos');
+  if (videosIndex >= 0 && /^\d+$/.test(segments[videosIndex + 1] || '')) {
+    return segments[videosIndex + 1];
+  }
+
+  // fb.watch/CODE não resolvido
+  if (hostMatches(url.hostname, 'fb.watch') && segments[0]) {
+    return `short:${segments[0]}`;
+  }
+
+  return null;
+}
+
+function parseTwitter(url: URL): { videoId: string; canonicalUrl: string } | null {
+  const segments = pathSegments(url);
+  const statusIndex = segments.indexOf('status');
+
+  if (statusIndex < 1 || !/^\d+$/.test(segments[statusIndex + 1] || '')) {
+    return null;
+  }
+
+  const user = segments[statusIndex - 1];
+  const videoId = segments[statusIndex + 1];
+  return { videoId, canonicalUrl: `https://x.com/${user}/status/${videoId}` };
+}
+
+/**
+ * Reconhece a plataforma e extrai o ID canônico do vídeo (sem acesso à rede)
+ * Retorna null para links que não são de vídeo, exceto com ALLOW_NON_VIDEO_LINKS
+ */
+export function parseVideoUrl(rawUrl: string): ParsedVideoUrl | null {
+  const originalUrl = cleanRawUrl(rawUrl);
+
+  let url: URL;
+  try {
+    url = new URL(originalUrl);
+  } catch (error) {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+
+  if (hostMatches(host, 'youtube.com') || hostMatches(host, 'youtu.be')) {
+    const videoId = parseYouTube(url);
+    if (videoId && YOUTUBE_ID.test(videoId)) {
+      return {
+        platform: 'youtube',
+        videoId,
+        canonicalUrl: `https://www.youtube.com/watch?v=${videoId}`,
+        originalUrl,
+      };
+    }
+  }
+
+  if (hostMatches(host, 'tiktok.com')) {
+    const parsed = parseTikTok(url);
+    if (parsed) return { platform: 'tiktok', ...parsed, originalUrl };
+  }
+
+  if (hostMatches(host, 'instagram.com')) {
+    const parsed = parseInstagram(url);
+    if (parsed) return { platform: 'instagram', ...parsed, originalUrl };
+  }
+
+  if (hostMatches(host, 'facebook.com') || hostMatches(host, 'fb.watch')) {
+    const videoId = parseFacebook(url);
+    if (videoId) {
+      const canonicalUrl = videoId.startsWith('short:')
+        ? `https://fb.watch/${videoId.slice('short:'.length)}/`
+        : `https://www.facebook.com/watch/?v=${videoId}`;
+      return { platform: 'facebook', videoId, canonicalUrl, originalUrl };
+    }
+  }
+
+  if (hostMatches(host, 'twitter.com') || hostMatches(host, 'x.com')) {
+    const parsed = parseTwitter(url);
+    if (parsed) return { platform: 'twitter', ...parsed, originalUrl };
+  }
+
+  if (!VIDEO_CONFIG.allowNonVideoLinks) {
+    return null;
+  }
+
+  // Link genérico: a própria URL limpa é o identificador
+  const canonicalUrl = stripTrackingParams(url).toString();
+  return { platform: 'other', videoId: canonicalUrl, canonicalUrl, originalUrl };
+}
+
+/**
+ * Segue o redirect de um link curto e retorna a URL final (ou null se falhar)
+ */
+async function resolveShortLink(url: string): Promise<string | null> {
+  try {
+    const response = await axios.head(url, {
+      maxRedirects: 5,
+      timeout: VIDEO_CONFIG.shortLinkResolveTimeoutMs,
+      validateStatus: () => true,
+    });
+    return response.request?.res?.responseUrl || null;
+  } catch (error: any) {
+    logger.warn(`⚠️ Não foi possível resolver link curto ${url}: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Como parseVideoUrl, mas resolve links curtos (vm.tiktok.com, fb.watch)
+ * para que apontem para o mesmo videoId do link completo
+ */
+export async function normalizeVideoUrl(rawUrl: string): Promise<ParsedVideoUrl | null> {
+  const parsed = parseVideoUrl(rawUrl);
+  if (!parsed || !parsed.videoId.startsWith('short:')) {
+    return parsed;
+  }
+
+  const host = new URL(parsed.originalUrl).hostname.toLowerCase();
+  const isShortHost = SHORT_LINK_HOSTS.some(shortHost => hostMatches(host, shortHost)) || host.endsWith('tiktok.com');
+  if (!isShortHost) {
+    return parsed;
+  }
+
+  const resolvedUrl = await resolveShortLink(parsed.originalUrl);
+  const resolved = resolvedUrl ? parseVideoUrl(resolvedUrl) : null;
+
+  if (!resolved || resolved.videoId.startsWith('short:') || resolved.platform !== parsed.platform) {
+    return parsed;
+  }
+
+  return { ...resolved, originalUrl: parsed.originalUrl };
+}
+
+/**
+ * Encontra todos os links http(s) no texto
+ */
+export function findUrls(text: string): string[] {
+  return (text.match(/https?:\/\/[^\s<>"]+/gi) || []).map(cleanRawUrl);
+}
+
+/**
+ * Extrai todos os links de vídeo do texto, sem repetir o mesmo vídeo
+ */
+export async function extractVideoUrls(text: string): Promise<ParsedVideoUrl[]> {
+  const videos: ParsedVideoUrl[] = [];
+
+  for (const rawUrl of findUrls(text)) {
+    const parsed = await normalizeVideoUrl(rawUrl);
+    if (parsed && !videos.some(video => video.platform === parsed.platform && video.videoId === parsed.videoId)) {
+      videos.push(parsed);
+    }
+  }
+
+  return videos;
+}
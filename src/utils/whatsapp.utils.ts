@@ -1,5 +1,6 @@
 import qrcode from 'qrcode-terminal';
-import { proto, WASocket } from '@whiskeysockets/baileys';
+import { proto, WASocket, WAMessage, MiscMessageGenerationOptions } from '@whiskeysockets/baileys';
+import type { VideoSuggestion } from '../services/mongodb.service';
 import { createLogger } from './logger.utils';
 
 const logger = createLogger('WhatsAppUtils');
@@ -9,6 +10,21 @@ export function generateQRCode(qr: string): void {
   qrcode.generate(qr, { small: true });
 }
 
+/**
+ * Monta a mensagem original de uma sugestão para ser citada (quoted) numa resposta
+ */
+export function buildQuotedSuggestion(suggestion: VideoSuggestion): WAMessage {
+  return {
+    key: {
+      remoteJid: suggestion.chatId,
+      id: suggestion.sourceMessageId || suggestion.messageId,
+      fromMe: false,
+      participant: suggestion.sugeridoPorJid,
+    },
+    message: { conversation: suggestion.texto },
+  };
+}
+
 export function extractTextFromMessage(message: proto.IMessage): string {
   if (!message) return 'Mensagem vazia';
 
@@ -17,10 +33,35 @@ export function extractTextFromMessage(message: proto.IMessage): string {
   if (message.imageMessage?.caption) return message.imageMessage.caption;
   if (message.videoMessage?.caption) return message.videoMessage.caption;
   if (message.documentMessage?.caption) return message.documentMessage.caption;
+  const buttonId = extractButtonReplyId(message);
+  if (buttonId) return buttonId;
+
+  return 'Mídia/Outro';
+}
+
+/**
+ * ID do botão escolhido numa resposta de botões
+ * Cobre botões clássicos, template e quick reply de native flow (interactiveResponseMessage)
+ */
+export function extractButtonReplyId(message: proto.IMessage | null | undefined): string | null {
+  if (!message) return null;
+
   if (message.buttonsResponseMessage?.selectedButtonId)
     return message.buttonsResponseMessage.selectedButtonId;
+  if (message.templateButtonReplyMessage?.selectedId)
+    return message.templateButtonReplyMessage.selectedId;
 
-  return 'Mídia/Outro';
+  const paramsJson = message.interactiveResponseMessage?.nativeFlowResponseMessage?.paramsJson;
+  if (paramsJson) {
+    try {
+      const params = JSON.parse(paramsJson);
+      if (typeof params.id === 'string') return params.id;
+    } catch (error) {
+      logger.warn('⚠️ Resposta interativa com paramsJson inválido');
+    }
+  }
+
+  return null;
 }
 
 // Versão atualizada usando Interactive Messages
@@ -29,8 +70,9 @@ export async function sendMessage(
   jid: string,
   text: string,
   buttons: { id: string; text: string }[],
-  headerText?: string
-) {
+  headerText?: string,
+  options?: MiscMessageGenerationOptions
+): Promise<WAMessage | undefined> {
   // Limita a 3 botões (limitação do WhatsApp)
   const limitedButtons = buttons.slice(0, 3);
 
@@ -51,5 +93,5 @@ export async function sendMessage(
     }
   };
 
-  await sock.sendMessage(jid, interactiveMessage as any);
+  return sock.sendMessage(jid, interactiveMessage as any, options);
 }